@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { cli } from "./lib/cli";
+
+cli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
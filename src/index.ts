@@ -1,2 +1,93 @@
-export { UIDManager } from "./lib/UIDManager";
-export type { UIDManagerInterface } from "./lib/UIDManager";
+export {
+  DEFAULT_NAMESPACE,
+  UIDManager,
+  UIDManagerAsync,
+} from "./lib/UIDManager";
+export type {
+  KeyLookup,
+  Page,
+  PageOptions,
+  Rotation,
+  UIDManagerInterface,
+  UIDManagerOptions,
+  UIDManagerView,
+} from "./lib/UIDManager";
+export { validateDetailed } from "./lib/uid";
+export type { GeneratorHistory } from "./lib/uid";
+export type { ValidationReason, ValidationReport } from "./lib/uid";
+export type { RetentionPolicy, UIDVersion } from "./lib/uid";
+export { encode, decode, canonicalize } from "./lib/formats";
+export type { CompactFormat, FormatOption } from "./lib/formats";
+export type { NanoIDOptions, UIDFormat } from "./lib/formats";
+export {
+  NIL,
+  MAX,
+  parse,
+  stringify,
+  compare,
+  equals,
+  version,
+  variant,
+} from "./lib/binary";
+export type { UUIDInput, UUIDVariant } from "./lib/binary";
+export { synchronize, broadcastTransport, memoryChannel } from "./lib/sync";
+export type { SyncOptions, SyncTarget, SyncTransport } from "./lib/sync";
+export {
+  PATCH_FORMAT,
+  PATCH_VERSION,
+  diff,
+  readPatch,
+  toPatch,
+} from "./lib/diff";
+export type { Diff, DiffSource, MergeConflict } from "./lib/diff";
+export type { MergeSource, MergeStrategy, Patch } from "./lib/diff";
+export { createRegistry } from "./lib/registry";
+export type {
+  RegistryMember,
+  RegistryOption,
+  UIDRegistry,
+} from "./lib/registry";
+export { NAMESPACES, deriveUid } from "./lib/names";
+export type { NameVersion } from "./lib/names";
+export { detectRandomSource, seededRandom } from "./lib/random";
+export type {
+  RandomOption,
+  RandomSource,
+  RandomSourceName,
+  SeededRandomSource,
+} from "./lib/random";
+export { isUID, assertUID } from "./lib/brand";
+export type { UID } from "./lib/brand";
+export type { BiMap } from "./lib/biMap";
+export {
+  UIDManagerError,
+  InvalidKeyError,
+  InvalidUIDError,
+  DuplicateUIDError,
+  InvalidSnapshotError,
+  InvalidPatchError,
+} from "./lib/errors";
+export type { ErrorDetails, ErrorMode } from "./lib/errors";
+export type { Outcome, Result } from "./lib/errors";
+export { createLogger, consoleSink, silentSink } from "./lib/logger";
+export type { LogEvent, LoggerOption } from "./lib/logger";
+export type { LogLevel, LogSink } from "./lib/logger";
+export type { BatchListener, ChangeEvent } from "./lib/events";
+export type { ChangeListener, ChangeType } from "./lib/events";
+export type { Subscribe, Unsubscribe } from "./lib/events";
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  byId,
+  jsonKeyCodec,
+  migrateSnapshot,
+} from "./lib/snapshot";
+export type { KeyCodec, Migrations, Snapshot } from "./lib/snapshot";
+export {
+  memoryAdapter,
+  localStorageAdapter,
+  indexedDBAdapter,
+  fileAdapter,
+} from "./lib/storage";
+export type { AutosaveMode, StorageAdapter } from "./lib/storage";
+export type { StorageOptions, StorageSlot } from "./lib/storage";
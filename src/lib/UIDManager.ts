@@ -1,6 +1,6 @@
 /**
  * @file UIDManager.ts
- * @version 1.2.0
+ * @version 1.3.0
  * @author Cadence Holmes
  * @copyright Cadence Holmes 2023
  * @license MIT
@@ -9,303 +9,2408 @@
  * and associate them with entities in a `map`.
  */
 
-import { uid as UID } from "./uid";
+import { uid as uidGenerator } from "./uid";
+import type { RetentionPolicy, UIDVersion, ValidationReport } from "./uid";
+import { biMap, isWeakKey, weakBiMap } from "./biMap";
+import type { BiMap } from "./biMap";
+import type { UID } from "./brand";
+import {
+  DuplicateUIDError,
+  InvalidKeyError,
+  InvalidPatchError,
+  InvalidSnapshotError,
+  InvalidUIDError,
+  UIDManagerError,
+} from "./errors";
+import type { ErrorDetails, ErrorMode, Outcome } from "./errors";
+import { deriveUid } from "./names";
+import type { NameVersion } from "./names";
+import type { RandomOption, RandomSourceName } from "./random";
+import type { Format, FormatOption } from "./formats";
+import { stringify } from "./binary";
+import { diff, readPatch } from "./diff";
+import type { Diff, DiffSource, MergeStrategy } from "./diff";
+import { emitter } from "./events";
+import type { ChangeListener, ChangeType, Subscribe } from "./events";
+import { createLogger } from "./logger";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  jsonKeyCodec,
+  migrateSnapshot,
+} from "./snapshot";
+import type { KeyCodec, Migrations, Snapshot } from "./snapshot";
+import { persistence, preload } from "./storage";
+import { heldElsewhere } from "./registry";
+import { registerReplica } from "./sync";
+import type { RegistryMember, RegistryOption } from "./registry";
+import type { StorageOptions } from "./storage";
+import type { LoggerOption, LogLevel } from "./logger";
 
-const onError = (name: string, e: unknown, msg?: string) => {
-  const label = `UIDManager.${name}`;
-  const message = msg ? ` : ${msg}` : "";
-  console.groupCollapsed(`${label}${message}`);
-  console.log(e);
-  console.groupEnd();
+/**
+ * Options for `UIDManager()`.
+ */
+export type UIDManagerOptions<M extends ErrorMode = ErrorMode> = {
+  /**
+   * Version of the generated UIDs. Use `7` for time-ordered
+   * identifiers suitable for database primary keys. Defaults to `4`.
+   */
+  version?: UIDVersion;
+
+  /**
+   * String format of the generated identifiers: `uuid` (default),
+   * `ulid`, `nanoid` (or `{ type: "nanoid", alphabet, size }`), or a
+   * compact `base58`, `base62`, or `base64url` UUID. `validate`,
+   * `set`, `restore`, and snapshots only accept this format.
+   */
+  format?: FormatOption;
+
+  /**
+   * Clock used for version 7 timestamps, the `window` retention
+   * policy, rotation times, and expiry. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+
+  /**
+   * Which previously generated UIDs the generator remembers.
+   * Defaults to `{ type: "all" }`. See `RetentionPolicy`.
+   */
+  retention?: RetentionPolicy;
+
+  /**
+   * Throw when no cryptographically secure random source is
+   * available instead of falling back to `Math.random`.
+   */
+  strict?: boolean;
+
+  /**
+   * Random source to use instead of the detected CSPRNG, e.g.
+   * `seededRandom(seed)` for reproducible test fixtures.
+   */
+  random?: RandomOption;
+
+  /**
+   * Default namespace UID used by `deriveUIDFor`.
+   */
+  namespace?: string;
+
+  /**
+   * Default name-based version used by `deriveUIDFor`. Defaults to `5`.
+   */
+  nameVersion?: NameVersion;
+
+  /**
+   * How methods report failures: `log` to the console and return
+   * `null`/`false` (default), `throw` typed errors, or return a
+   * `Result` object. See `ErrorMode`.
+   */
+  errors?: M;
+
+  /**
+   * Where diagnostics are sent: `"console"` (default), `"silent"`,
+   * or a custom `LogSink` receiving structured `LogEvent`s.
+   */
+  logger?: LoggerOption;
+
+  /**
+   * Minimum level of diagnostics to send. Defaults to `"info"`.
+   * Use `"debug"` to trace every mutation.
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Hydrate from and autosave to a `StorageAdapter`. Adapters that
+   * read asynchronously require `UIDManagerAsync`.
+   */
+  storage?: StorageOptions;
+
+  /**
+   * Hold keys weakly so they can be garbage collected. Keys must be
+   * objects. `keys`, `uids`, `entries`, and `getMap` then only reflect
+   * keys that have not been collected yet. The generator history
+   * only forgets the UID of a collected key with the `live`
+   * retention policy; the other policies keep it, as they do for a
+   * deleted key, so it grows with every key ever held.
+   */
+  weak?: boolean;
+
+  /**
+   * Called with the UID of an association removed because its key
+   * was garbage collected. Only used with `weak`.
+   */
+  onCollect?: (uid: string) => void;
+
+  /**
+   * Track UID rotations. When a key is given a new UID, the old one
+   * is retired and still resolves to the key through `getKeyFor`.
+   * See `historyFor`. Not supported with `weak`.
+   */
+  rotation?: boolean;
+
+  /**
+   * Share uniqueness with the other managers attached to a registry
+   * (see `createRegistry`). Generated, `set`, restored, and imported
+   * UIDs are then never held by another attached manager. The manager
+   * is attached once created.
+   */
+  registry?: RegistryOption;
+
+  /**
+   * Default time to live of the associations made by `generateUIDFor`
+   * and `set`, in milliseconds. Either can override it per call.
+   * Expired associations are invisible to every lookup, and are
+   * removed when next looked up, by `purgeExpired`, or by the
+   * `purgeInterval` timer, emitting an `expire` event. Defaults to no
+   * expiry.
+   */
+  ttl?: number;
+
+  /**
+   * Extend the expiry of an association by its TTL whenever it is
+   * found by `getUIDFor`, `getKeyFor`, `hasUIDFor`, or `hasKeyFor`.
+   * Defaults to `false`.
+   */
+  sliding?: boolean;
+
+  /**
+   * Call `purgeExpired` on every namespace this often, in
+   * milliseconds, until `clearPurgeInterval` is called. The timer
+   * does not keep a Node process alive.
+   */
+  purgeInterval?: number;
+};
+
+/**
+ * A UID a key was previously associated with, see `historyFor`.
+ */
+export type Rotation<T extends string = string> = {
+  uid: UID<T>;
+
+  /**
+   * When the key was given a new UID, from the manager's `clock`.
+   */
+  supersededAt: number;
+};
+
+/**
+ * Result of `getKeyFor(uid, { detailed: true })`.
+ */
+export type KeyLookup<K = unknown, T extends string = string> = {
+  key: K;
+
+  /**
+   * `true` if the UID was replaced by a newer one.
+   */
+  superseded: boolean;
+
+  /**
+   * The UID the key is currently associated with, if any.
+   */
+  current: UID<T> | undefined;
+};
+
+/**
+ * Options of `page`.
+ */
+export type PageOptions = {
+  /**
+   * The `cursor` of the previous page. Omit for the first page.
+   */
+  cursor?: string;
+
+  /**
+   * Most entries per page. Defaults to `100`.
+   */
+  limit?: number;
+};
+
+/**
+ * Result of `page`.
+ */
+export type Page<K = unknown, T extends string = string> = {
+  entries: [K, UID<T>][];
+
+  /**
+   * Pass to `page` for the next page, or `undefined` on the last page.
+   */
+  cursor: string | undefined;
+};
+
+/**
+ * Name of the namespace holding the manager's own entries.
+ */
+export const DEFAULT_NAMESPACE = "default";
+
+/**
+ * An alias of a key, or with `supersededAt` a UID the key used to
+ * be associated with.
+ */
+type Link<K, T extends string> = {
+  key: K;
+  uid: UID<T>;
+  supersededAt?: number;
+};
+
+/**
+ * When an association expires, and the TTL it was made with.
+ */
+type Expiry = {
+  at: number;
+  ttl: number;
+};
+
+/**
+ * Options of the methods that make associations.
+ */
+type TTLOptions = {
+  /**
+   * Time to live in milliseconds, overriding the `ttl` option. Pass
+   * `Infinity` for no expiry.
+   */
+  ttl?: number;
+};
+
+/**
+ * Throw if a TTL is not a positive number of milliseconds.
+ */
+const checkTTL = (ttl: unknown) => {
+  if (ttl !== undefined && !(typeof ttl === "number" && ttl > 0)) {
+    throw new Error(`Invalid TTL: ${ttl}.`);
+  }
+};
+
+/**
+ * Read the TTL from the options of a method, which may be missing or,
+ * when the method is passed to e.g. `map`, an index.
+ */
+const ttlOf = (options: unknown, fallback: number | undefined) => {
+  if (!options || typeof options !== "object") return fallback;
+  const { ttl = fallback } = options as TTLOptions;
+  checkTTL(ttl);
+  return ttl;
+};
+
+/**
+ * Read a `page` cursor: the sequence number of the last entry of the
+ * previous page (see `BiMap.visitAfter`).
+ */
+const cursorOf = (cursor: unknown) => {
+  if (typeof cursor !== "string" || !/^\d+$/.test(cursor)) return null;
+  return Number(cursor);
+};
+
+/**
+ * Combine the properties of two objects into a frozen object. Unlike
+ * a spread, getters are copied as getters rather than evaluated.
+ */
+const extend = <A extends object, B extends object>(base: A, extra: B) => {
+  const descriptors = {
+    ...Object.getOwnPropertyDescriptors(base),
+    ...Object.getOwnPropertyDescriptors(extra),
+  };
+  return Object.freeze(Object.defineProperties({}, descriptors) as A & B);
+};
+
+/**
+ * The links of a partition keyed by UID, indexed by key so the links
+ * of one key are found without visiting the others.
+ */
+type LinkMap<K, T extends string> = {
+  readonly size: number;
+  has: (uid: string) => boolean;
+  get: (uid: string) => Link<K, T> | undefined;
+  set: (uid: string, link: Link<K, T>) => void;
+  delete: (uid: string) => boolean;
+  clear: () => void;
+  forEach: (fn: (link: Link<K, T>, uid: string) => void) => void;
+  /**
+   * Every link of a key, in the order they were made.
+   */
+  of: (key: K) => Link<K, T>[];
+  /**
+   * Delete every link of a key.
+   */
+  unlink: (key: K) => void;
+};
+
+/**
+ * The inverse of a change. It may return a function to call once
+ * every inverse of a transaction has run, e.g. to restore an order.
+ */
+type Undo = () => (() => void) | void;
+
+/**
+ * Pass the inverse of every later `set`, `delete`, and `clear` of a
+ * `Map` to `record`.
+ */
+const journaled = <A, B>(
+  map: Map<A, B>,
+  record: (undo: Undo) => void,
+): Map<A, B> => {
+  const { set, delete: remove, clear } = Map.prototype;
+  const restore = (old: [A, B][]) => () => {
+    old.forEach(([k, v]) => map.set(k, v));
+  };
+  return Object.defineProperties(map, {
+    set: {
+      value: (key: A, value: B) => {
+        if (map.has(key)) record(restore([[key, map.get(key) as B]]));
+        else {
+          record(() => {
+            map.delete(key);
+          });
+        }
+        return set.call(map, key, value);
+      },
+    },
+    delete: {
+      value: (key: A) => {
+        if (map.has(key)) record(restore([[key, map.get(key) as B]]));
+        return remove.call(map, key);
+      },
+    },
+    clear: {
+      value: () => {
+        record(restore([...map]));
+        clear.call(map);
+      },
+    },
+  });
+};
+
+/**
+ * Create an empty `LinkMap`.
+ * @param {(undo: Undo) => void} record
+ * Called with the inverse of every `set`, `delete`, `clear`, and
+ * `unlink`.
+ */
+const linkMap = <K, T extends string>(
+  record: (undo: Undo) => void,
+): LinkMap<K, T> => {
+  const links = new Map<string, Link<K, T>>();
+  const byKey = new Map<K, Set<string>>();
+
+  const add = (uid: string, link: Link<K, T>) => {
+    links.set(uid, link);
+    const uids = byKey.get(link.key);
+    if (uids) uids.add(uid);
+    else byKey.set(link.key, new Set([uid]));
+  };
+
+  const remove = (uid: string) => {
+    const link = links.get(uid) as Link<K, T>;
+    links.delete(uid);
+    const uids = byKey.get(link.key);
+    uids?.delete(uid);
+    if (uids?.size === 0) byKey.delete(link.key);
+    return link;
+  };
+
+  /**
+   * Remove links, recording how to add them back.
+   */
+  const removeAll = (uids: string[]) => {
+    const old = uids.map((uid): [string, Link<K, T>] => [uid, remove(uid)]);
+    if (old.length) record(() => old.forEach(([uid, link]) => add(uid, link)));
+  };
+
+  return {
+    get size() {
+      return links.size;
+    },
+    has: (uid) => links.has(uid),
+    get: (uid) => links.get(uid),
+    set: (uid, link) => {
+      removeAll(links.has(uid) ? [uid] : []);
+      add(uid, link);
+      record(() => {
+        remove(uid);
+      });
+    },
+    delete: (uid) => {
+      if (!links.has(uid)) return false;
+      removeAll([uid]);
+      return true;
+    },
+    clear: () => removeAll([...links.keys()]),
+    forEach: (fn) => links.forEach(fn),
+    of: (key) => {
+      const uids = [...(byKey.get(key) || [])];
+      return uids.map((uid) => links.get(uid) as Link<K, T>);
+    },
+    unlink: (key) => removeAll([...(byKey.get(key) || [])]),
+  };
+};
+
+/**
+ * The parts of a namespace partition used by the other partitions.
+ */
+type Part<K, T extends string> = {
+  map: BiMap<K, UID<T>>;
+  links: LinkMap<K, T>;
+  expires: Map<string, Expiry>;
+  purge: () => number;
+  change: (
+    type: ChangeType,
+    key: K,
+    oldUID: UID<T> | undefined,
+    newUID: UID<T> | undefined,
+  ) => void;
+  replace: ($entries: [K, UID<T>][]) => void;
+  snapshotOf: (
+    codec: KeyCodec<K>,
+    codecs?: Record<string, KeyCodec<K>>,
+  ) => Snapshot;
+  importFrom: (
+    snapshot: unknown,
+    codec: KeyCodec<K>,
+    migrations?: Migrations,
+    codecs?: Record<string, KeyCodec<K>>,
+  ) => void;
+  replicate: (key: K, uid: string | null) => void;
 };
 
 const defaultMsg =
-  "All values must be valid RFC4122 version 4 " +
+  "All values must be valid RFC 9562 version 3, 4, 5, or 7 " +
   "compliant unique identifiers.";
 
+/**
+ * Throw an `InvalidKeyError` if a key is `undefined`, `null`, or `NaN`,
+ * or if `weak` and the key is not an object.
+ */
+const checkKey = (key: unknown, details: ErrorDetails = {}, weak = false) => {
+  let problem = "";
+  if (weak && !isWeakKey(key)) problem = "primitives in weak mode";
+  if (key === undefined) problem = "undefined";
+  if (key === null) problem = "null";
+  if (Number.isNaN(key)) problem = "NaN";
+  if (problem) {
+    const at = details.index === undefined ? "" : ` at index ${details.index}`;
+    const msg = `Keys must not be ${problem}. Invalid key${at}.`;
+    throw new InvalidKeyError(msg, { key, ...details });
+  }
+};
+
+/**
+ * Throw an `InvalidUIDError` if a string is not a valid UID in the
+ * given format.
+ */
+const checkUID = (uid: string, format: Format, details: ErrorDetails = {}) => {
+  if (!format.test(uid)) {
+    const at = details.index === undefined ? "" : ` at index ${details.index}`;
+    const expected =
+      format.name === "uuid"
+        ? defaultMsg
+        : `All values must be valid ${format.name} identifiers.`;
+    const msg = `Invalid UID ${uid}${at}. ${expected}`;
+    throw new InvalidUIDError(msg, { uid, ...details });
+  }
+};
+
+/**
+ * Spell a UID given as a string or as 16 bytes in the given format.
+ * Strings are returned unchanged, and bytes are read as a UUID and
+ * converted, which formats that do not encode UUIDs cannot do.
+ */
+const textOf = (uid: string | Uint8Array, format: Format) => {
+  if (typeof uid === "string") return uid;
+  if (!format.fromUUID) {
+    const msg = `Binary UIDs are not supported by the ${format.name} format.`;
+    throw new InvalidUIDError(msg);
+  }
+  return format.fromUUID(stringify(uid));
+};
+
 /**
  * Generate RFC4122 version 4 compliant unique identifiers
  * and associate them with entities in a `map`.
+ * @template K
+ * Type of the keys. Defaults to `unknown`.
+ * @template T
+ * Optional entity kind used to tag the branded `UID<T>` values.
+ * @template M
+ * The `ErrorMode`, matching `options.errors`. Defaults to `log`.
+ * @param {UIDManagerOptions} [options]
+ * Pass `{ version: 7 }` to generate time-ordered identifiers.
+ * Pass `{ strict: true }` to throw if no CSPRNG is available.
  * @returns
+ * @example
+ * const users = UIDManager<User, "user">();
+ * const id = users.generateUIDFor(user); // UID<"user"> | null
  */
-export const UIDManager = () => {
-  const generator = UID();
-  const map = new Map();
-  const self = {
-    /**
-     * Validate strings as RFC4122 version 4 compliant unique identifiers.
-     * @param {string|string[]} uids
-     * Either a single string or array of strings to test.
-     * @returns {string[]|null}
-     * Returns `string[]` containing all valid strings.
-     * Returns `null` on error.
-     * @example // Single valid string
-     * const uid = 'AA97B177-9383-4934-8543-0F91A7A02836';
-     * const validated = UIDManager().validate(uid); // validated === [uid]
-     * const isValid = validated.length > 0; // true
-     * @example // Array of valid strings
-     * const uids = [...new Array(5)].map((_) => 'AA97B177-9383-4934-8543-0F91A7A02836');
-     * const validated = UIDManager().validate(uids); // validated == uids
-     * const isValid = validated.length === uids.length; // true
-     * @example // Array of invalid strings
-     * const uids = ['1', '2', '3', '4'];
-     * const validated = UIDManager().validate(uids); // validated != uids
-     * const isValid = validated.length === uids.length; // false
-     * @example // Array of mixed validity strings
-     * const uid = 'AA97B177-9383-4934-8543-0F91A7A02836';
-     * const uids = ['invalid-uid', uid];
-     * const validated = UIDManager().validate(uids); // validated == [uid]
-     * const isValid = validated.length === uids.length; // false
-     */
-    validate: (uids: null | string | (string | null)[]): string[] | null => {
+export const UIDManager = <
+  K = unknown,
+  T extends string = string,
+  M extends ErrorMode = "log",
+>(
+  options: UIDManagerOptions<M> = {},
+) => {
+  const log = createLogger(options.logger, options.logLevel);
+  const generator = uidGenerator([], { ...options, logger: log });
+  const { normalize } = generator.format;
+
+  /**
+   * Spell a UID the way it is stored, so lookups ignore case and
+   * accept the alternate UUID forms (see `canonicalize`).
+   */
+  const canonical = (uid: string) => {
+    if (typeof uid !== "string") return uid;
+    return normalize(uid);
+  };
+  const store = options.storage && persistence(options.storage, log);
+  const { weak = false, rotation = false, clock = Date.now } = options;
+  if (weak && rotation) {
+    throw new Error("Rotation tracking is not supported in weak mode.");
+  }
+  const { ttl: defaultTTL, sliding = false, purgeInterval } = options;
+  checkTTL(defaultTTL);
+  const interval = purgeInterval;
+  if (interval !== undefined && !(Number.isFinite(interval) && interval > 0)) {
+    throw new Error(`Invalid purge interval: ${interval}.`);
+  }
+
+  /**
+   * Clean up after a weakly held key was garbage collected.
+   */
+  const collected = (uid: UID<T>) => {
+    generator.release(uid);
+    log({
+      level: "debug",
+      operation: "UIDManager.weak",
+      message: "Key was garbage collected.",
+      uid,
+    });
+    try {
+      options.onCollect?.(uid);
+    } catch (error) {
+      log({
+        level: "error",
+        operation: "UIDManager.onCollect",
+        message: "The onCollect callback threw.",
+        uid,
+        error,
+      });
+    }
+    store?.changed();
+  };
+
+  const mode: ErrorMode = options.errors || "log";
+  if (!["log", "throw", "result"].includes(mode)) {
+    throw new Error(`Invalid error mode: ${mode}.`);
+  }
+
+  /**
+   * Side effects queued by the running transaction, if any.
+   */
+  let pending: (() => void)[] | undefined;
+
+  /**
+   * Inverses of the changes made by the running transaction, if any,
+   * in the order the changes were made.
+   */
+  let journal: Undo[] | undefined;
+
+  /**
+   * Add the inverse of a change to the journal of the running
+   * transaction.
+   */
+  const record = (undo: Undo) => {
+    journal?.push(undo);
+  };
+  generator.journal(record);
+
+  /**
+   * Run a side effect now, or once the running transaction commits.
+   */
+  const defer = (effect: () => void) => {
+    if (pending) pending.push(effect);
+    else effect();
+  };
+
+  /**
+   * Note that the manager changed, for `storage`.
+   */
+  const changed = () => defer(() => store?.changed());
+
+  /**
+   * Report an error caught in the method `name`.
+   */
+  const onError = (name: string, e: unknown) => {
+    const known = e instanceof UIDManagerError;
+    log({
+      level: "error",
+      operation: `UIDManager.${name}`,
+      message: e instanceof Error ? e.message : String(e),
+      key: known ? e.key : undefined,
+      uid: known ? e.uid : undefined,
+      error: e,
+    });
+  };
+
+  /**
+   * Trace a mutation made by the method `name` at the `debug` level.
+   */
+  const trace = (
+    name: string,
+    message: string,
+    key?: unknown,
+    uid?: string,
+  ) => {
+    log({
+      level: "debug",
+      operation: `UIDManager.${name}`,
+      message,
+      key,
+      uid,
+    });
+  };
+
+  /**
+   * Wrap a fallible method so failures are reported according to the
+   * error mode. In `log` mode a `UIDManagerError` resolves to
+   * `invalid` and any other error resolves to `null`. Inside a
+   * transaction every failure is thrown, so it can roll back.
+   */
+  const guard = <A extends unknown[], V>(
+    name: string,
+    fn: (...args: A) => V,
+    invalid: V | null = null,
+  ) => {
+    const guarded = (...args: A): Outcome<M, V> => {
       try {
-        return generator.validate(uids);
+        const value = fn(...args);
+        if (mode !== "result") return value as Outcome<M, V>;
+        return { ok: true, value, error: undefined } as Outcome<M, V>;
       } catch (e) {
-        onError("validate", e, defaultMsg);
-        return null;
+        const error = e instanceof Error ? e : new Error(String(e));
+        if (mode === "throw" || pending) throw error;
+        if (mode === "result") {
+          return { ok: false, value: undefined, error } as Outcome<M, V>;
+        }
+        onError(name, e);
+        if (e instanceof UIDManagerError) return invalid as Outcome<M, V>;
+        return null as Outcome<M, V>;
       }
-    },
+    };
+    return guarded;
+  };
+
+  /**
+   * Validate entries for `restore` and `importSnapshot`, returning
+   * them with lowercase UIDs. Retired UIDs are rejected, as in `set`.
+   */
+  const prepare = (entries: [K, string][]): [K, UID<T>][] => {
+    const $entries = entries.map(([k, v]): [K, UID<T>] => [
+      k,
+      normalize(v) as UID<T>,
+    ]);
+    const bank = new Set<string>();
+    const retired = new Set(generator.getHistory().retired);
+    $entries.forEach(([k, v], index) => {
+      const details = { entry: entries[index], index };
+      if (bank.has(v)) {
+        const msg = `Duplicate UID found: ${v} at index ${index}.`;
+        throw new DuplicateUIDError(msg, details);
+      }
+      bank.add(v);
+      checkUID(v, generator.format, details);
+      checkKey(k, details, weak);
+      if (retired.has(v)) {
+        const msg = `UID ${v} at index ${index} is retired.`;
+        throw new DuplicateUIDError(msg, details);
+      }
+    });
+    return $entries;
+  };
+
+  /**
+   * Internals of each partition, keyed by namespace name.
+   */
+  const parts = new Map<string, Part<K, T>>();
+
+  /**
+   * Name of the namespace holding an association with `uid`, if any.
+   */
+  const ownerOf = (uid: string): string | undefined => {
+    const held = [...parts].find(
+      ([, p]) => p.map.hasUID(uid) || p.links.has(uid),
+    );
+    return held?.[0];
+  };
+
+  /**
+   * The manager once created, as registries know it.
+   */
+  let member: RegistryMember | undefined;
+
+  /**
+   * Check if another manager attached to a registry this manager is
+   * attached to holds `uid`, whether it was attached by the
+   * `registry` option or by `attach`.
+   */
+  const claimed = (uid: string): boolean => {
+    if (member === undefined) return false;
+    return heldElsewhere(member, uid);
+  };
+
+  /**
+   * Every associated UID outside the namespace `name`.
+   */
+  const uidsOutside = (name: string): string[] => {
+    const others = [...parts].filter(([n]) => n !== name);
+    return others.flatMap(([, part]) => [...part.map.values()]);
+  };
+
+  /**
+   * Run `fn` atomically. If it throws, its changes to every namespace
+   * and to the generator history are undone in reverse order and
+   * queued events are dropped; otherwise the events are emitted once
+   * it returns. Nested calls join the outer transaction.
+   */
+  const atomically = <R>(fn: () => R): R => {
+    if (pending) return fn();
+    const undo: Undo[] = [];
+    pending = [];
+    journal = undo;
+    try {
+      const result = fn();
+      if (typeof (result as Promise<unknown>)?.then === "function") {
+        throw new Error("Transactions must be synchronous.");
+      }
+      const effects = pending;
+      pending = undefined;
+      journal = undefined;
+      effects.forEach((effect) => effect());
+      return result;
+    } catch (e) {
+      pending = undefined;
+      journal = undefined;
+      const settle = new Set<() => void>();
+      undo.reverse().forEach((change) => {
+        const then = change();
+        if (then) settle.add(then);
+      });
+      settle.forEach((then) => then());
+      throw e;
+    }
+  };
+
+  /**
+   * Retrieve the value of a successful `Outcome`.
+   */
+  const unwrap = <V>(outcome: Outcome<M, V>): V => {
+    if (mode !== "result") return outcome as V;
+    return (outcome as { value: V }).value;
+  };
+
+  /**
+   * Views created by `namespace()`, keyed by name.
+   */
+  const views = new Map<string, ReturnType<typeof partition>>();
+
+  /**
+   * Create the map, events, and methods of one namespace. Every
+   * partition shares the generator, so UIDs are unique across all
+   * of them.
+   */
+  const partition = (name: string) => {
+    const map: BiMap<K, UID<T>> = weak
+      ? (weakBiMap<K & object, UID<T>>(collected, record) as BiMap<K, UID<T>>)
+      : biMap<K, UID<T>>(undefined, record);
+    const links = linkMap<K, T>(record);
+    const expires = journaled(new Map<string, Expiry>(), record);
+    const events = emitter<K, UID<T>>((error, event) => {
+      log({
+        level: "error",
+        operation: "UIDManager.subscribe",
+        message: `A listener threw while handling a ${event.type} event.`,
+        key: event.key,
+        uid: event.newUID || event.oldUID,
+        error,
+      });
+    });
 
     /**
-     * Generate a unique identifier and associate it with the provided key.
-     * Internally, these associations are stored in a `new Map()`. The target
-     * entity is set as the key, and the UID string is set as the value. If
-     * the target entity already exists in the map, the existing association
-     * is deleted and a new UID is mapped to that entity.
-     * @param {any} key
-     * `any` entity to be mapped to a unique identifier.
-     * Throws if the key is `undefined`, `null`, or `NaN`.
-     * @returns {string|null}
-     * Returns the newly generated UID `string`.
-     * Returns `null` on error.
+     * Emit a `ChangeEvent` for the association of `key`.
      */
-    generateUIDFor: (key: any): string | null => {
-      try {
-        if (key === undefined) throw new Error("Keys must not be undefined.");
-        if (key === null) throw new Error("Keys must not be null.");
-        if (Number.isNaN(key)) throw new Error("Keys must not be NaN.");
-        if (map.has(key)) map.delete(key);
-        const uid = generator.generate();
-        map.set(key, uid);
-        return uid;
-      } catch (e) {
-        onError("generateUIDFor", e);
-        return null;
+    const change = (
+      type: ChangeType,
+      key: K,
+      oldUID: UID<T> | undefined,
+      newUID: UID<T> | undefined,
+    ) => {
+      defer(() => {
+        events.emit({
+          type,
+          key,
+          oldUID,
+          newUID,
+        });
+        store?.changed();
+      });
+    };
+
+    /**
+     * Record that `key` is no longer associated with `oldUID`. With
+     * rotation tracking the UID is retired and linked to the key;
+     * otherwise it is released like a deleted UID.
+     */
+    const supersede = (key: K, oldUID: UID<T>) => {
+      if (!rotation) {
+        generator.release(oldUID);
+        return;
       }
-    },
+      generator.retire(oldUID);
+      links.set(oldUID, { key, uid: oldUID, supersededAt: clock() });
+    };
 
     /**
-     * Retrieve the UID string for the associated object.
-     * @param {any} key
-     * The entity reference.
-     * @returns {string|undefined}
-     * Returns the UID `string` or `undefined` if a value is not found.
+     * Set when a newly associated UID expires, or clear it if `ttl`
+     * is missing or infinite.
      */
-    getUIDFor: (key: any): string | undefined => map.get(key),
+    const expire = (uid: UID<T>, ttl: number | undefined) => {
+      if (ttl === undefined || ttl === Infinity) expires.delete(uid);
+      else expires.set(uid, { at: clock() + ttl, ttl });
+    };
 
     /**
-     * Retrieve the key for the associated UID string.
-     * @param {string} uid
-     * The UID string.
-     * @returns {any}
-     * Returns the associated key or `undefined` if a matching
-     * value is not found. Returns `null` on error.
+     * Remove the expired association of `key` and emit an `expire`
+     * event.
      */
-    getKeyFor: (uid: string): any => {
-      try {
-        const entries = [...map.entries()];
-        const i = entries.findIndex((e) => uid === e[1]);
-        if (i < 0) return undefined;
-        return entries[i][0];
-      } catch (e) {
-        onError("getKeyFor", e);
-        return null;
+    const lapse = (key: K, uid: UID<T>) => {
+      expires.delete(uid);
+      generator.release(uid);
+      map.delete(key);
+      links.unlink(key);
+      trace("expire", "UID expired.", key, uid);
+      change("expire", key, uid, undefined);
+    };
+
+    /**
+     * Check if `key` is associated with a UID that has not expired,
+     * removing the association if it has. With `sliding`, a live
+     * association is extended by its TTL.
+     */
+    const alive = (key: K): boolean => {
+      const uid = map.get(key);
+      if (uid === undefined) return false;
+      const expiry = expires.get(uid);
+      if (!expiry) return true;
+      const now = clock();
+      if (expiry.at > now) {
+        if (sliding) expiry.at = now + expiry.ttl;
+        return true;
       }
-    },
+      lapse(key, uid);
+      return false;
+    };
+
+    /**
+     * Remove every expired association.
+     * @returns {number}
+     * The number of associations removed.
+     */
+    const purge = (): number => {
+      const now = clock();
+      let count = 0;
+      expires.forEach(({ at }, uid) => {
+        if (!map.hasUID(uid)) expires.delete(uid);
+        else if (at <= now) {
+          lapse(map.keyFor(uid) as K, uid as UID<T>);
+          count += 1;
+        }
+      });
+      return count;
+    };
 
     /**
-     * Check if there is an existing UID for the target key.
-     * @param {any} key
-     * The entity reference.
-     * @returns {boolean}
+     * Make `next` the map, changing only the associations that differ
+     * and emitting a `set` or `delete` event for each. UIDs that move
+     * to another key keep their expiry.
      */
-    hasUIDFor: (key: any): boolean => map.has(key),
+    const commit = (next: Map<K, UID<T>>) => {
+      const previous = new Map(map);
+      const kept = new Set(next.values());
+      previous.forEach((uid, key) => {
+        if (next.get(key) === uid) return;
+        map.delete(key);
+        if (kept.has(uid)) return;
+        expires.delete(uid);
+        if (next.has(key)) supersede(key, uid);
+        else {
+          generator.release(uid);
+          links.unlink(key);
+        }
+      });
+      previous.forEach((uid, key) => {
+        if (!next.has(key)) change("delete", key, uid, undefined);
+      });
+      next.forEach((uid, key) => {
+        const oldUID = previous.get(key);
+        if (oldUID === uid) return;
+        map.set(key, uid);
+        change("set", key, oldUID, uid);
+      });
+    };
 
     /**
-     * Check if there is an existing key for the target UID.
-     * @param {string} uid - The UID string.
-     * @returns {boolean}
+     * Validate the keys and UIDs that `next` adds to the map, as in
+     * `set`, then commit it.
      */
-    hasKeyFor: (uid: string): boolean => [...map.values()].includes(uid),
+    const settle = (next: Map<K, UID<T>>) => {
+      const held = new Set<string>(map.values());
+      const retired = new Set(generator.getHistory().retired);
+      const seen = new Set<string>();
+      next.forEach((v, k) => {
+        const entry: [K, string] = [k, v];
+        if (seen.has(v)) {
+          throw new DuplicateUIDError(`Duplicate UID found: ${v}.`, { entry });
+        }
+        seen.add(v);
+        if (!map.has(k)) checkKey(k, { entry }, weak);
+        if (held.has(v)) return;
+        checkUID(v, generator.format, { entry });
+        if (ownerOf(v) !== undefined || claimed(v) || retired.has(v)) {
+          throw new DuplicateUIDError(`UID already exists: ${v}.`, { entry });
+        }
+      });
+      commit(next);
+    };
 
     /**
-     * Retrieve a new array containing all keys held in the map.
-     * @returns {any[]}
+     * Apply a change replicated by `synchronize`: associate `key`
+     * with `uid`, or delete its association if `uid` is `null`.
+     * Unlike `set`, a UID in the generator history is accepted, so
+     * the context that generated a UID follows when another context
+     * moves it to a different key.
      */
-    keys: (): any[] => [...map.keys()],
+    const replicate = (key: K, uid: string | null) => {
+      const oldUID = map.get(key);
+      if (uid === null) {
+        if (oldUID === undefined) return;
+        generator.release(oldUID);
+        map.delete(key);
+        links.unlink(key);
+        expires.delete(oldUID);
+        trace("synchronize", "Deleted UID.", key, oldUID);
+        change("delete", key, oldUID, undefined);
+        return;
+      }
+      const entry: [K, string] = [key, uid];
+      const v = normalize(uid) as UID<T>;
+      checkUID(v, generator.format, { entry });
+      checkKey(key, { entry }, weak);
+      if (v === oldUID) return;
+      if (ownerOf(v) !== undefined || claimed(v)) {
+        throw new DuplicateUIDError(`UID already exists: ${v}.`, { entry });
+      }
+      if (oldUID) {
+        supersede(key, oldUID);
+        map.delete(key);
+        expires.delete(oldUID);
+      }
+      map.set(key, v);
+      expire(v, defaultTTL);
+      trace("synchronize", "Set UID.", key, v);
+      change("set", key, oldUID, v);
+    };
 
     /**
-     * Retrieve a new array containing all values (uids) held in the map.
-     * @returns {string[]}
+     * Iterate the entries without copying them. Entries added while
+     * iterating are visited, entries deleted before they are reached
+     * are not, and no key is visited twice.
      */
-    uids: (): string[] => [...map.values()],
+    const walk = (): IterableIterator<[K, UID<T>]> => {
+      purge();
+      const source = map.entries();
+      const seen = new Set<K>();
+      const iterator: IterableIterator<[K, UID<T>]> = {
+        next: () => {
+          let step = source.next();
+          while (!step.done && seen.has(step.value[0])) step = source.next();
+          if (step.done) return step;
+          seen.add(step.value[0]);
+          return { done: false, value: [step.value[0], step.value[1]] };
+        },
+        [Symbol.iterator]: () => iterator,
+      };
+      return iterator;
+    };
 
     /**
-     * Retrieve a new array containing [key, value] arrays for each entry.
-     * @returns {[any, string][]}
+     * Visit each entry until `visit` returns `true`.
      */
-    entries: (): [any, string][] => [...map.entries()],
+    const scan = (visit: (key: K, uid: UID<T>) => boolean) => {
+      const iterator = walk();
+      let step = iterator.next();
+      while (!step.done && !visit(...step.value)) step = iterator.next();
+    };
 
     /**
-     * Replace the current map with a new set of entries.
-     * This will first validate each key/value pair to ensure
-     * all keys are not `undefined`, `null`, or `NaN`, and that all
-     * values are valid RFC4122 version 4 compliant unique
-     * identifiers. If validation succeeds, the internal Map
-     * is cleared and set with the new entries.
-     * @param {[any, string][]} entries
-     * An array of key/value pairs expressed as individual [k, v] arrays.
-     * @returns {boolean|null}
-     * Returns `true` on success or `false` if validation fails.
-     * Returns `null` for all other errors.
+     * Replace every association with validated entries and emit
+     * `restore` events. Links and expiries are dropped, and the
+     * generator history is left to the caller.
      */
-    restore: (entries: [any, string][]): boolean | null => {
-      try {
-        const $entries = entries.map(([k, v]) => [k, v.toLowerCase()]);
-        const bank = [] as string[];
-        const validated = $entries.every(([k, v], i) => {
-          if (bank.includes(v)) {
-            const err = `Invalid entry [${k}, ${v}] at index ${i}`;
-            const msg = `Duplicate UID found: ${v}.`;
-            onError("restore", new Error(err), msg);
-            return false;
+    const replace = ($entries: [K, UID<T>][]) => {
+      const previous = new Map(map);
+      map.clear();
+      links.clear();
+      expires.clear();
+      $entries.forEach(([k, v]) => map.set(k, v));
+      previous.forEach((oldUID, key) => {
+        if (map.has(key)) return;
+        change("restore", key, oldUID, undefined);
+      });
+      map.forEach((newUID, key) => {
+        const oldUID = previous.get(key);
+        change("restore", key, oldUID, newUID);
+      });
+    };
+
+    /**
+     * Build a `Snapshot` of the partition, encoding keys with `codec`,
+     * or with `codecs[name]` for other namespaces. Only the default
+     * namespace includes the others.
+     */
+    const snapshotOf = (
+      codec: KeyCodec<K>,
+      codecs: Record<string, KeyCodec<K>> = {},
+    ): Snapshot => {
+      const encode = (m: BiMap<K, UID<T>>, c: KeyCodec<K>) => {
+        const entries = [...m.entries()];
+        return entries.map(([k, v]): [unknown, string] => [c.toKey(k), v]);
+      };
+      const namespaces: Snapshot["namespaces"] = {};
+      const $links: Snapshot["links"] = [];
+      const $expires: Snapshot["expires"] = [];
+      parts.forEach((part, n) => {
+        if (n !== name && name !== DEFAULT_NAMESPACE) return;
+        const c = n === name ? codec : codecs[n] || codec;
+        if (n !== name) namespaces[n] = encode(part.map, c);
+        part.expires.forEach(({ at, ttl }, uid) => {
+          if (part.map.hasUID(uid)) $expires.push({ uid, at, ttl });
+        });
+        part.links.forEach(({ key, uid, supersededAt }) => {
+          const link: Snapshot["links"][number] = {
+            namespace: n,
+            key: c.toKey(key),
+            uid,
+          };
+          if (supersededAt !== undefined) link.supersededAt = supersededAt;
+          $links.push(link);
+        });
+      });
+      const settings: Snapshot["settings"] = {
+        retention: { ...generator.retention },
+      };
+      if (options.format) settings.format = options.format;
+      if (options.namespace) settings.namespace = options.namespace;
+      if (options.nameVersion) settings.nameVersion = options.nameVersion;
+      return {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        uidVersion: generator.version,
+        settings,
+        entries: encode(map, codec),
+        namespaces,
+        links: $links,
+        expires: $expires,
+        history: generator.getHistory(),
+      };
+    };
+
+    /**
+     * Import a snapshot of any supported version. The default namespace
+     * replaces every namespace and the generator history; any other
+     * namespace replaces only its own entries and adds the snapshot
+     * history to the current one. Throws without changing anything if
+     * the snapshot is invalid.
+     */
+    const importFrom = (
+      snapshot: unknown,
+      codec: KeyCodec<K>,
+      migrations?: Migrations,
+      codecs: Record<string, KeyCodec<K>> = {},
+    ) => {
+      const current = migrateSnapshot(snapshot, migrations);
+      const isDefault = name === DEFAULT_NAMESPACE;
+      const decode = (entries: [unknown, string][], c: KeyCodec<K>) => {
+        const decoded = entries.map(([k, v]): [K, string] => [c.fromKey(k), v]);
+        return prepare(decoded);
+      };
+      const incoming = new Map([[name, decode(current.entries, codec)]]);
+      if (isDefault) {
+        Object.entries(current.namespaces).forEach(([n, entries]) => {
+          if (!n || n === DEFAULT_NAMESPACE) {
+            throw new InvalidSnapshotError(`Invalid namespace name: ${n}.`);
+          }
+          incoming.set(n, decode(entries, codecs[n] || codec));
+        });
+      } else {
+        parts.forEach((part, n) => {
+          if (n !== name) incoming.set(n, [...part.map.entries()]);
+        });
+      }
+      const owners = new Map<string, string>();
+      const own = (v: string, n: string) => {
+        if (owners.has(v)) {
+          const msg = `UID ${v} is in namespaces ${owners.get(v)} and ${n}.`;
+          throw new DuplicateUIDError(msg, { uid: v });
+        }
+        if (claimed(v)) {
+          const msg = `UID ${v} is held by another manager.`;
+          throw new DuplicateUIDError(msg, { uid: v });
+        }
+        owners.set(v, n);
+      };
+      incoming.forEach((entries, n) => entries.forEach(([, v]) => own(v, n)));
+      const count = isDefault ? owners.size : incoming.get(name)?.length;
+      if (!isDefault) {
+        parts.forEach((part, n) => {
+          if (n !== name) part.links.forEach((link, v) => own(v, n));
+        });
+      }
+      if (weak && current.links.length) {
+        throw new Error("Links are not supported in weak mode.");
+      }
+      const linked = current.links.map((link, index): [string, Link<K, T>] => {
+        const n = isDefault ? link.namespace : name;
+        if (!incoming.has(n)) {
+          throw new InvalidSnapshotError(`Unknown namespace: ${n}.`);
+        }
+        const uid = normalize(link.uid) as UID<T>;
+        const key = (n === name ? codec : codecs[n] || codec).fromKey(link.key);
+        const { supersededAt } = link;
+        checkUID(uid, generator.format, { uid, index });
+        checkKey(key, { uid, index });
+        if (supersededAt !== undefined && !Number.isFinite(supersededAt)) {
+          throw new InvalidSnapshotError("Snapshot is malformed.");
+        }
+        own(uid, n);
+        const $link: Link<K, T> = { key, uid };
+        if (supersededAt !== undefined) $link.supersededAt = supersededAt;
+        return [n, $link];
+      });
+      const expiring = current.expires.map(({ uid, at, ttl }) => {
+        const v = normalize(uid);
+        const n = owners.get(v);
+        if (n === undefined || (!isDefault && n !== name)) {
+          throw new InvalidSnapshotError(`Expiry of unknown UID ${uid}.`);
+        }
+        return [n, v, { at, ttl }] as const;
+      });
+      const { uids, retired } = current.history;
+      const ids = [...uids.map(([v]) => v), ...retired];
+      ids.forEach((v) => checkUID(v, generator.format));
+      const times = uids.every(([, time]) => Number.isFinite(time));
+      if (!times) throw new InvalidSnapshotError("Snapshot is malformed.");
+      if (isDefault) {
+        generator.setHistory(current.history);
+        parts.forEach((part, n) => {
+          if (!incoming.has(n)) part.replace([]);
+        });
+        incoming.forEach((entries, n) => {
+          if (!parts.has(n)) partition(n);
+          parts.get(n)?.replace(entries);
+        });
+        linked.forEach(([n, link]) => parts.get(n)?.links.set(link.uid, link));
+        expiring.forEach(([n, v, e]) => parts.get(n)?.expires.set(v, e));
+      } else {
+        const history = generator.getHistory();
+        generator.setHistory({
+          uids: [...history.uids, ...uids],
+          retired: [...history.retired, ...retired],
+        });
+        replace(incoming.get(name) || []);
+        linked.forEach(([, link]) => links.set(link.uid, link));
+        expiring.forEach(([, v, e]) => expires.set(v, e));
+      }
+      trace("importSnapshot", `Imported ${count} entries.`);
+    };
+
+    const self = {
+      /**
+       * Validate strings as RFC 9562 compliant unique identifiers.
+       * Versions 3, 4, 5, and 7 are accepted.
+       * @param {string|string[]} uids
+       * Either a single string or array of strings to test.
+       * @returns {UID<T>[]|null}
+       * Returns `UID<T>[]` containing all valid strings.
+       * Returns `null` on error (see `ErrorMode`).
+       * @example // Single valid string
+       * const uid = 'AA97B177-9383-4934-8543-0F91A7A02836';
+       * const validated = UIDManager().validate(uid); // validated === [uid]
+       * const isValid = validated.length > 0; // true
+       * @example // Array of valid strings
+       * const uids = [...new Array(5)].map((_) => 'AA97B177-9383-4934-8543-0F91A7A02836');
+       * const validated = UIDManager().validate(uids); // validated == uids
+       * const isValid = validated.length === uids.length; // true
+       * @example // Array of invalid strings
+       * const uids = ['1', '2', '3', '4'];
+       * const validated = UIDManager().validate(uids); // validated != uids
+       * const isValid = validated.length === uids.length; // false
+       * @example // Array of mixed validity strings
+       * const uid = 'AA97B177-9383-4934-8543-0F91A7A02836';
+       * const uids = ['invalid-uid', uid];
+       * const validated = UIDManager().validate(uids); // validated == [uid]
+       * const isValid = validated.length === uids.length; // false
+       */
+      validate: guard("validate", (uids: null | string | (string | null)[]) => {
+        const valid = generator.validate(uids);
+        return valid as UID<T>[];
+      }),
+
+      /**
+       * Validate inputs and report on each one: whether it is valid,
+       * its canonical spelling, version, and variant, and why it was
+       * rejected. Braces, a `urn:uuid:` prefix, and missing hyphens
+       * are accepted. Formats other than `uuid` only report whether
+       * the identifier is in the format.
+       * @param {unknown} uids
+       * Either a single value or an array of values to test.
+       * @returns {ValidationReport[]|null}
+       * Returns one report per input, in order.
+       * Returns `null` on error (see `ErrorMode`).
+       * @example
+       * UIDManager().validateDetailed(["urn:uuid:ba7faa56-24a2-4098-9850-2cdb3d8e5e85", "1"]);
+       * // [{ valid: true, version: 4, variant: "rfc9562", ... },
+       * //  { valid: false, reason: "length", ... }]
+       */
+      validateDetailed: guard(
+        "validateDetailed",
+        (uids: unknown): ValidationReport[] => generator.validateDetailed(uids),
+      ),
+
+      /**
+       * Generate a unique identifier and associate it with the provided key.
+       * Internally, these associations are stored in a `new Map()`. The target
+       * entity is set as the key, and the UID string is set as the value. If
+       * the target entity already exists in the map, the existing association
+       * is deleted and a new UID is mapped to that entity.
+       * @param {K} key
+       * `any` entity to be mapped to a unique identifier.
+       * Fails with `InvalidKeyError` if the key is `undefined`, `null`,
+       * or `NaN`.
+       * @param {{ ttl?: number }} [expiry]
+       * Time to live in milliseconds, overriding the `ttl` option.
+       * Numbers, such as the index passed by `forEach`, are ignored.
+       * @returns {UID<T>|null}
+       * Returns the newly generated UID `string`.
+       * Returns `null` on error (see `ErrorMode`).
+       */
+      generateUIDFor: guard(
+        "generateUIDFor",
+        (key: K, expiry?: TTLOptions | number): UID<T> => {
+          checkKey(key, {}, weak);
+          const ttl = ttlOf(expiry, defaultTTL);
+          const oldUID = map.get(key);
+          if (oldUID) {
+            supersede(key, oldUID);
+            map.delete(key);
+            expires.delete(oldUID);
+          }
+          let uid = generator.generate() as UID<T>;
+          while (ownerOf(uid) !== undefined || claimed(uid)) {
+            uid = generator.generate() as UID<T>;
+          }
+          map.set(key, uid);
+          expire(uid, ttl);
+          trace("generateUIDFor", "Generated UID.", key, uid);
+          const type = oldUID ? "regenerate" : "generate";
+          change(type, key, oldUID, uid);
+          return uid;
+        },
+      ),
+
+      /**
+       * Derive a deterministic name-based identifier for the provided key
+       * and associate it with that key. The same namespace and key always
+       * derive the same UID. Strings are hashed as-is; all other keys are
+       * serialized as JSON with sorted object keys, so structurally equal
+       * objects derive equal UIDs. If the key already has a different UID
+       * the existing association is replaced. Fails if the derived UID is
+       * already associated with a different key, or is retired or in the
+       * generator history (`DuplicateUIDError`).
+       * With a `format` other than `uuid` the derived UUID is encoded in
+       * that format; `nanoid` can not be derived.
+       * @param {K} key
+       * `any` serializable entity to be mapped to a unique identifier.
+       * @param {{ namespace?: string; version?: NameVersion }} [options]
+       * Namespace UID and version (`5` for SHA-1, `3` for MD5). Defaults
+       * to the `namespace` and `nameVersion` given to `UIDManager()`.
+       * @returns {UID<T>|null}
+       * Returns the derived UID `string`.
+       * Returns `null` on error (see `ErrorMode`).
+       * @example
+       * const manager = UIDManager({ namespace: NAMESPACES.URL });
+       * manager.deriveUIDFor("https://example.com/a"); // same on every run
+       */
+      deriveUIDFor: guard(
+        "deriveUIDFor",
+        (
+          key: K,
+          {
+            namespace,
+            version,
+          }: {
+            namespace?: string;
+            version?: NameVersion;
+          } = {},
+        ): UID<T> => {
+          checkKey(key, {}, weak);
+          const ns = namespace || options.namespace;
+          if (!ns) throw new Error("A namespace is required.");
+          const nameVersion = version || options.nameVersion;
+          const { fromUUID } = generator.format;
+          if (!fromUUID) {
+            const msg = `The ${generator.format.name} format can not be derived.`;
+            throw new Error(msg);
+          }
+          const uuid = deriveUid(ns, key, nameVersion);
+          const uid = normalize(fromUUID(uuid)) as UID<T>;
+          if (map.get(key) === uid) return uid;
+          if (ownerOf(uid) !== undefined || claimed(uid)) {
+            const msg = `UID ${uid} is already associated with another key.`;
+            throw new DuplicateUIDError(msg, { key, uid });
           }
-          bank.push(v);
-          if (!generator.validate(v)) {
-            const err = `Invalid entry [${k}, ${v}] at index ${i}`;
-            onError("restore", new Error(err), defaultMsg);
-            return false;
+          if (generator.has(uid)) {
+            const msg = `UID ${uid} was generated or retired before.`;
+            throw new DuplicateUIDError(msg, { key, uid });
           }
-          const invalidKey = k === undefined || k === null || Number.isNaN(k);
-          if (invalidKey) {
-            const err = `Invalid entry [${k}, ${v}] at index ${i}`;
-            const msg = "Keys must not be null, undefined, or NaN.";
-            onError("restore", new Error(err), msg);
-            return false;
+          const oldUID = map.get(key);
+          if (oldUID) {
+            supersede(key, oldUID);
+            map.delete(key);
+            expires.delete(oldUID);
           }
+          map.set(key, uid);
+          expire(uid, undefined);
+          trace("deriveUIDFor", "Derived UID.", key, uid);
+          change("set", key, oldUID, uid);
+          return uid;
+        },
+      ),
+
+      /**
+       * Retrieve the UID string for the associated object.
+       * @param {K} key
+       * The entity reference.
+       * @returns {string|undefined}
+       * Returns the UID `string` or `undefined` if a value is not found
+       * or has expired.
+       */
+      getUIDFor: (key: K): UID<T> | undefined => {
+        if (!alive(key)) return undefined;
+        return map.get(key);
+      },
+
+      /**
+       * Retrieve the key for the associated UID string. Aliases and,
+       * with the `rotation` option, superseded UIDs also resolve to
+       * their key. The UID is normalized first, so any letter case and
+       * the alternate UUID forms are found.
+       * @param {string|Uint8Array} uid
+       * The UID string, or the 16 bytes of a UUID (see `binary.ts`).
+       * @param {{ detailed?: boolean }} [options]
+       * Pass `{ detailed: true }` to receive a `KeyLookup` holding the
+       * key, whether the UID was `superseded`, and the `current` UID.
+       * @returns {K|KeyLookup<K, T>|undefined|null}
+       * Returns the associated key or `undefined` if a matching
+       * value is not found. Returns `null` on error (see `ErrorMode`).
+       * @example
+       * const lookup = manager.getKeyFor(oldUid, { detailed: true });
+       * if (lookup?.superseded) redirect(lookup.current);
+       */
+      getKeyFor: guard(
+        "getKeyFor",
+        (
+          input: string | Uint8Array,
+          { detailed = false }: { detailed?: boolean } = {},
+        ): K | KeyLookup<K, T> | undefined => {
+          const uid = canonical(textOf(input, generator.format));
+          const link = links.get(uid);
+          const key = link ? link.key : map.keyFor(uid);
+          if (key === undefined || !alive(key)) return undefined;
+          if (!detailed) return key;
+          if (!link && !map.hasUID(uid)) return undefined;
+          return {
+            key,
+            superseded: link?.supersededAt !== undefined,
+            current: map.get(key as K),
+          };
+        },
+      ) as {
+        (
+          uid: string | Uint8Array,
+          options: { detailed: true },
+        ): Outcome<M, KeyLookup<K, T> | undefined>;
+        (uid: string | Uint8Array): Outcome<M, K | undefined>;
+      },
+
+      /**
+       * Check if there is an existing UID for the target key that has
+       * not expired.
+       * @param {K} key
+       * The entity reference.
+       * @returns {boolean}
+       */
+      hasUIDFor: (key: K): boolean => alive(key),
+
+      /**
+       * Check if there is an existing key for the target UID. The UID
+       * is normalized first, as in `getKeyFor`.
+       * @param {string} uid - The UID string.
+       * @returns {boolean}
+       */
+      hasKeyFor: (uid: string): boolean => {
+        const id = canonical(uid);
+        const link = links.get(id);
+        if (!link && !map.hasUID(id)) return false;
+        return alive(link ? link.key : (map.keyFor(id) as K));
+      },
+
+      /**
+       * Retrieve the UIDs a key was previously associated with, oldest
+       * first. Only recorded with the `rotation` option, and cleared
+       * when the key's association is deleted.
+       * @param {K} key
+       * The entity reference.
+       * @returns {Rotation<T>[]}
+       */
+      historyFor: (key: K): Rotation<T>[] => {
+        const superseded = links
+          .of(key)
+          .filter((link) => link.supersededAt !== undefined);
+        return superseded.map(({ uid, supersededAt }) => ({
+          uid,
+          supersededAt: supersededAt as number,
+        }));
+      },
+
+      /**
+       * Let a key answer to an additional UID. `getKeyFor` resolves the
+       * alias to the key, and the alias is retired so it is never
+       * generated or accepted by `set`. Aliases are removed when the
+       * key's association is deleted. Not supported with `weak`.
+       * @param {K} key
+       * A key that is associated with a UID.
+       * @param {string} uid
+       * The alias, an unused valid UID.
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if validation fails.
+       * Returns `null` for all other errors (see `ErrorMode`).
+       */
+      addAlias: guard(
+        "addAlias",
+        (key: K, uid: string): boolean => {
+          const v = normalize(uid) as UID<T>;
+          checkUID(v, generator.format, { key });
+          if (weak) throw new Error("Aliases are not supported in weak mode.");
+          if (!map.has(key)) {
+            const msg = "Only keys with a UID can have aliases.";
+            throw new InvalidKeyError(msg, { key, uid: v });
+          }
+          if (ownerOf(v) !== undefined || generator.has(v) || claimed(v)) {
+            throw new DuplicateUIDError(`UID already exists: ${v}.`, { key });
+          }
+          generator.retire(v);
+          links.set(v, { key, uid: v });
+          trace("addAlias", "Added alias.", key, v);
+          changed();
           return true;
-        });
-        if (!validated) return false;
-        map.clear();
-        generator.setExisting($entries.map((entry) => entry[1]));
-        $entries.forEach(([k, v]) => map.set(k, v));
+        },
+        false,
+      ),
+
+      /**
+       * Remove an alias added by `addAlias`. The UID stays retired.
+       * @param {string} uid
+       * The alias.
+       * @returns {boolean}
+       * Returns `true` if the UID was an alias.
+       */
+      removeAlias: (uid: string): boolean => {
+        const v = normalize(uid);
+        const link = links.get(v);
+        if (!link || link.supersededAt !== undefined) return false;
+        links.delete(v);
+        trace("removeAlias", "Removed alias.", link.key, v);
+        changed();
         return true;
-      } catch (e) {
-        onError("restore", e);
-        return null;
-      }
-    },
+      },
 
-    /**
-     * Manually set a new UID association.
-     * This will first validate the key/value pair to ensure
-     * the key is not `undefined`, `null`, or `NaN`, and the
-     * value is a valid RFC4122 version 4 compliant unique
-     * identifier. If validation succeeds, the internal Map
-     * is checked for an existing key and if found will delete
-     * the association before setting the new one.
-     * @param {[any, string][]} entries
-     * An array of key/value pairs expressed as individual [k, v] arrays.
-     * @returns {boolean|null}
-     * Returns `true` on success or `false` if validation fails.
-     * Returns `null` for all other errors.
-     */
-    set: (entry: [any, string]): boolean | null => {
-      try {
-        const [k, v] = [entry[0], entry[1].toLowerCase()];
-        if (!generator.validate(v)) {
-          const err = `Invalid entry [${k}, ${v}]`;
-          onError("set", new Error(err), defaultMsg);
+      /**
+       * Retrieve the aliases of a key, see `addAlias`.
+       * @param {K} key
+       * The entity reference.
+       * @returns {UID<T>[]}
+       */
+      aliasesFor: (key: K): UID<T>[] => {
+        const aliases = links
+          .of(key)
+          .filter((link) => link.supersededAt === undefined);
+        return aliases.map(({ uid }) => uid);
+      },
+
+      /**
+       * Retrieve a new array containing all keys held in the map.
+       * In `weak` mode only keys that have not been garbage collected
+       * are included, so the result may shrink between calls.
+       * @returns {K[]}
+       */
+      keys: (): K[] => {
+        purge();
+        return [...map.keys()];
+      },
+
+      /**
+       * Retrieve a new array containing all values (uids) held in the map.
+       * @returns {UID<T>[]}
+       */
+      uids: (): UID<T>[] => {
+        purge();
+        return [...map.values()];
+      },
+
+      /**
+       * Retrieve a new array containing [key, value] arrays for each entry.
+       * In `weak` mode only entries whose keys have not been garbage
+       * collected are included.
+       * @returns {[K, UID<T>][]}
+       */
+      entries: (): [K, UID<T>][] => {
+        purge();
+        return [...map.entries()];
+      },
+
+      /**
+       * Iterate `[key, uid]` entries without copying the map. Entries
+       * added during the loop are visited, entries deleted before they
+       * are reached are not, and no key is visited twice, so the map
+       * may be modified while iterating.
+       * @returns {IterableIterator<[K, UID<T>]>}
+       * @example
+       * for (const [key, uid] of manager) console.log(key, uid);
+       */
+      [Symbol.iterator]: walk,
+
+      /**
+       * The number of associations.
+       * @type {number}
+       */
+      get size(): number {
+        purge();
+        return map.size;
+      },
+
+      /**
+       * Call `callback` for each association, as when iterating.
+       * @param {(uid: UID<T>, key: K) => void} callback
+       */
+      forEach: (callback: (uid: UID<T>, key: K) => void) => {
+        scan((key, uid) => {
+          callback(uid, key);
           return false;
-        }
-        const invalidKey = k === undefined || k === null || Number.isNaN(k);
-        if (invalidKey) {
-          const err = `Invalid entry [${k}, ${v}]`;
-          const msg = "Keys must not be null, undefined, or NaN.";
-          onError("set", new Error(err), msg);
+        });
+      },
+
+      /**
+       * Retrieve the first entry that satisfies `predicate`.
+       * @param {(uid: UID<T>, key: K) => boolean} predicate
+       * @returns {[K, UID<T>]|undefined}
+       * Returns the `[key, uid]` entry or `undefined` if none matches.
+       */
+      find: (predicate: (uid: UID<T>, key: K) => boolean) => {
+        let found: [K, UID<T>] | undefined;
+        scan((key, uid) => {
+          if (predicate(uid, key)) found = [key, uid];
+          return found !== undefined;
+        });
+        return found;
+      },
+
+      /**
+       * Retrieve every entry that satisfies `predicate`.
+       * @param {(uid: UID<T>, key: K) => boolean} predicate
+       * @returns {[K, UID<T>][]}
+       * Returns a new array of `[key, uid]` entries.
+       */
+      filter: (predicate: (uid: UID<T>, key: K) => boolean) => {
+        const found: [K, UID<T>][] = [];
+        scan((key, uid) => {
+          if (predicate(uid, key)) found.push([key, uid]);
           return false;
+        });
+        return found;
+      },
+
+      /**
+       * Retrieve a page of entries without copying the map. Pass the
+       * returned `cursor` to get the next page. A page resumes after
+       * the last entry of the previous one, even if that entry was
+       * deleted in the meantime, so no entry is skipped. Entries
+       * added since are visited at the end.
+       * Fails if the `limit` is not a positive integer or the `cursor`
+       * was not returned by `page`.
+       * @param {PageOptions} [options]
+       * @returns {Page<K, T>|null}
+       * @example
+       * let { entries, cursor } = manager.page({ limit: 50 });
+       * while (cursor) ({ entries, cursor } = manager.page({ cursor }));
+       */
+      page: guard("page", ({ cursor, limit = 100 }: PageOptions = {}) => {
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error(`Invalid page limit: ${limit}.`);
         }
-        const invalidEntry = (() => {
-          const values = [...map.values()];
-          const { getExisting } = generator;
-          return values.includes(v) || getExisting().includes(v);
-        })();
-        if (invalidEntry) {
-          const err = `Invalid entry [${k}, ${v}]`;
-          const msg = "UID already exists.";
-          onError("set", new Error(err), msg);
+        const after = cursor === undefined ? 0 : cursorOf(cursor);
+        if (after === null) throw new Error(`Invalid cursor: ${cursor}.`);
+        const entries: [K, UID<T>][] = [];
+        let last = after;
+        let more = false;
+        map.visitAfter(after, (key, uid, seq) => {
+          if (!alive(key)) return false;
+          more = entries.length === limit;
+          if (more) return true;
+          entries.push([key, uid]);
+          last = seq;
           return false;
-        }
-        if (map.has(k)) map.delete(k);
-        map.set(k, v);
+        });
+        const next = more ? `${last}` : undefined;
+        return { entries, cursor: next } as Page<K, T>;
+      }),
+
+      /**
+       * Replace the current map with a new set of entries.
+       * This will first validate each key/value pair to ensure
+       * all keys are not `undefined`, `null`, or `NaN`, and that all
+       * values are valid RFC 9562 version 3, 4, 5, or 7 compliant unique
+       * identifiers. If validation succeeds, the internal Map
+       * is cleared and set with the new entries.
+       * @param {[K, string][]} entries
+       * An array of key/value pairs expressed as individual [k, v] arrays.
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if validation fails.
+       * Returns `null` for all other errors (see `ErrorMode`).
+       */
+      restore: guard(
+        "restore",
+        (entries: [K, string][]): boolean => {
+          const $entries = prepare(entries);
+          $entries.forEach(([, v], index) => {
+            const owner = ownerOf(v);
+            const details = { entry: entries[index], index };
+            if (claimed(v)) {
+              const msg = `UID ${v} at index ${index} is held by another manager.`;
+              throw new DuplicateUIDError(msg, details);
+            }
+            if (owner === undefined || owner === name) return;
+            const msg = `UID ${v} at index ${index} is in namespace ${owner}.`;
+            throw new DuplicateUIDError(msg, details);
+          });
+          generator.setExisting([
+            ...$entries.map((entry) => entry[1]),
+            ...uidsOutside(name),
+          ]);
+          replace($entries);
+          trace("restore", `Restored ${$entries.length} entries.`);
+          return true;
+        },
+        false,
+      ),
+
+      /**
+       * Export the map, the generator history, and the settings as a
+       * versioned, JSON-safe `Snapshot`. Keys are encoded with
+       * `options.codec`, which defaults to `jsonKeyCodec` and rejects
+       * keys that can not be represented as JSON (e.g. symbols).
+       * @param {{ codec?: KeyCodec<K> }} [options]
+       * @returns {Snapshot|null}
+       * Returns the snapshot, ready for `JSON.stringify`.
+       * Returns `null` on error (see `ErrorMode`).
+       * @example
+       * const codec = byId<User>("id", (id) => users.get(id));
+       * const json = JSON.stringify(manager.exportSnapshot({ codec }));
+       */
+      exportSnapshot: guard(
+        "exportSnapshot",
+        ({
+          codec = jsonKeyCodec as KeyCodec<K>,
+          codecs,
+        }: {
+          codec?: KeyCodec<K>;
+          codecs?: Record<string, KeyCodec<K>>;
+        } = {}): Snapshot => {
+          parts.forEach((part) => part.purge());
+          return snapshotOf(codec, codecs);
+        },
+      ),
+
+      /**
+       * Replace the map and the generator history with the contents of
+       * a `Snapshot`, so UIDs issued before the snapshot was taken are
+       * never issued again. Older snapshot versions, including plain
+       * `entries()` arrays, are upgraded first by the built-in and any
+       * given `migrations`. Keys are decoded with `options.codec`.
+       * The entries are validated as in `restore`, and nothing is
+       * changed unless the whole snapshot is valid. The snapshot
+       * settings are not applied; create the manager with them instead.
+       * @param {unknown} snapshot
+       * A parsed snapshot of any supported version.
+       * @param {{ codec?: KeyCodec<K>; migrations?: Migrations }} [options]
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if validation fails.
+       * Returns `null` for all other errors (see `ErrorMode`).
+       * @example
+       * const snapshot = JSON.parse(json);
+       * const manager = UIDManager({
+       *   version: snapshot.uidVersion,
+       *   ...snapshot.settings,
+       * });
+       * manager.importSnapshot(snapshot, { codec });
+       */
+      importSnapshot: guard(
+        "importSnapshot",
+        (
+          snapshot: unknown,
+          {
+            codec = jsonKeyCodec as KeyCodec<K>,
+            migrations,
+            codecs,
+          }: {
+            codec?: KeyCodec<K>;
+            migrations?: Migrations;
+            codecs?: Record<string, KeyCodec<K>>;
+          } = {},
+        ): boolean => {
+          importFrom(snapshot, codec, migrations, codecs);
+          return true;
+        },
+        false,
+      ),
+
+      /**
+       * Apply a `Patch`, or a `Diff` as returned by `diff`. Every change
+       * must match the current entries: removed and changed entries
+       * must still hold their old UIDs, and added keys must be free.
+       * Keys of a `Patch` are decoded with `options.codec`. Nothing is
+       * changed unless the whole patch applies.
+       * Fails with `InvalidPatchError` if the patch is malformed or
+       * does not apply, and as in `set` if it adds an invalid key or
+       * UID, or a UID that is held elsewhere or retired.
+       * @param {Patch|Diff<K>} patch
+       * @param {{ codec?: KeyCodec<K> }} [options]
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if validation fails.
+       * Returns `null` for all other errors (see `ErrorMode`).
+       * @example
+       * const patch = toPatch(diff(client, server));
+       * client.applyPatch(JSON.parse(JSON.stringify(patch)));
+       */
+      applyPatch: guard(
+        "applyPatch",
+        (
+          patch: unknown,
+          { codec = jsonKeyCodec as KeyCodec<K> }: { codec?: KeyCodec<K> } = {},
+        ): boolean => {
+          purge();
+          const changes = readPatch(patch, codec);
+          const current = (key: K, uid: string, what: string) => {
+            if (map.get(key) === normalize(uid)) return;
+            const msg = `The ${what} entry does not match: ${uid}.`;
+            throw new InvalidPatchError(msg, { key, uid });
+          };
+          const next = new Map(map);
+          changes.removed.forEach(([k, v]) => current(k, v, "removed"));
+          changes.rekeyed.forEach((r) => current(r.from, r.uid, "rekeyed"));
+          changes.changed.forEach((c) => current(c.key, c.from, "changed"));
+          changes.removed.forEach(([k]) => next.delete(k));
+          changes.rekeyed.forEach(({ from }) => next.delete(from));
+          changes.changed.forEach(({ key }) => next.delete(key));
+          const add = (key: K, uid: string) => {
+            if (next.has(key)) {
+              const msg = `The key is already associated: ${uid}.`;
+              throw new InvalidPatchError(msg, { key, uid });
+            }
+            next.set(key, normalize(uid) as UID<T>);
+          };
+          changes.changed.forEach(({ key, to }) => add(key, to));
+          changes.rekeyed.forEach(({ uid, to }) => add(to, uid));
+          changes.added.forEach(([k, v]) => add(k, v));
+          settle(next);
+          trace("applyPatch", "Applied patch.");
+          return true;
+        },
+        false,
+      ),
+
+      /**
+       * Merge the entries of another manager, namespace view, entries
+       * array, or `Snapshot` (keys decoded with `options.codec`) into
+       * this one. Entries that clash with an entry here, by sharing a
+       * key but not a UID or a UID but not a key, are resolved by the
+       * `strategy`; an entry of theirs is only taken if it wins every
+       * clash. Every UID of theirs is added to the generator history,
+       * so none is ever issued here.
+       * @param {DiffSource<K>|Snapshot} other
+       * @param {MergeStrategy<K>} [strategy]
+       * Defaults to `"mine"`.
+       * @param {{ codec?: KeyCodec<K> }} [options]
+       * @returns {Diff<K>|null}
+       * Returns the changes made to this manager.
+       * Returns `null` on error (see `ErrorMode`).
+       * @example
+       * client.merge(JSON.parse(serverSnapshot), "theirs");
+       * client.merge(other, ({ mine, theirs }) => pick(mine, theirs));
+       */
+      merge: guard(
+        "merge",
+        (
+          other: DiffSource<K> | Snapshot,
+          strategy: MergeStrategy<K> = "mine",
+          { codec = jsonKeyCodec as KeyCodec<K> }: { codec?: KeyCodec<K> } = {},
+        ): Diff<K> => {
+          const strategies = ["mine", "theirs", "newest"];
+          if (
+            typeof strategy !== "function" &&
+            !strategies.includes(strategy)
+          ) {
+            throw new Error(`Unknown merge strategy: ${strategy}.`);
+          }
+          purge();
+          let entries: [K, string][];
+          let theirTime: (uid: string) => number | undefined = () => undefined;
+          if ((other as Snapshot).format === SNAPSHOT_FORMAT) {
+            const current = migrateSnapshot(other);
+            const times = new Map(current.history.uids);
+            entries = current.entries.map(([k, v]) => [codec.fromKey(k), v]);
+            theirTime = (uid) => times.get(uid);
+          } else if (Array.isArray(other)) entries = other;
+          else {
+            const source = other as Exclude<DiffSource<K>, unknown[]>;
+            entries = source.entries();
+            theirTime = source.addedAt || theirTime;
+          }
+          const incoming = entries.map(([k, v]): [K, UID<T>] => {
+            const entry: [K, string] = [k, v];
+            checkUID(normalize(v), generator.format, { entry });
+            checkKey(k, { entry }, weak);
+            return [k, normalize(v) as UID<T>];
+          });
+          const myTimes = new Map(generator.getHistory().uids);
+          const decide = (mine: [K, string], theirs: [K, string]) => {
+            if (typeof strategy === "function") {
+              return strategy({ mine, theirs });
+            }
+            if (strategy === "mine" || strategy === "theirs") return strategy;
+            const a = myTimes.get(mine[1]) ?? -Infinity;
+            const b = theirTime(theirs[1]) ?? -Infinity;
+            return b > a ? "theirs" : "mine";
+          };
+          const before = [...map.entries()];
+          const next = new Map(map);
+          const keyOf = new Map([...next].map(([k, v]) => [v, k]));
+          incoming.forEach(([k, v]) => {
+            const mv = next.get(k);
+            const mk = keyOf.get(v);
+            if (mv === v) return;
+            const clashes: [K, string][] = [];
+            if (mv !== undefined) clashes.push([k, mv]);
+            if (mk !== undefined) clashes.push([mk, v]);
+            const won = clashes.every((e) => decide(e, [k, v]) === "theirs");
+            if (!won) return;
+            if (mv !== undefined) keyOf.delete(mv);
+            if (mk !== undefined) next.delete(mk);
+            next.set(k, v);
+            keyOf.set(v, k);
+          });
+          settle(next);
+          const history = generator.getHistory();
+          const known = new Set(history.uids.map(([v]) => v));
+          const added = incoming
+            .filter(([, v]) => !known.has(v))
+            .map(([, v]): [string, number] => [v, theirTime(v) ?? clock()]);
+          generator.setHistory({
+            ...history,
+            uids: [...history.uids, ...added],
+          });
+          trace("merge", `Merged ${incoming.length} entries.`);
+          return diff(before, [...map.entries()]);
+        },
+      ),
+
+      /**
+       * Retrieve when a UID was added to the generator history, by
+       * generating, restoring, importing, or merging it, from the
+       * manager's `clock`. UIDs given by `set` have no time.
+       * @param {string} uid
+       * @returns {number|undefined}
+       * Returns the time or `undefined` if the UID is not in the
+       * history.
+       */
+      addedAt: (uid: string): number | undefined => {
+        const times = new Map(generator.getHistory().uids);
+        return times.get(canonical(uid));
+      },
+
+      /**
+       * Manually set a new UID association.
+       * This will first validate the key/value pair to ensure
+       * the key is not `undefined`, `null`, or `NaN`, and the
+       * value is a valid RFC 9562 version 3, 4, 5, or 7 compliant unique
+       * identifier. If validation succeeds, the internal Map
+       * is checked for an existing key and if found will delete
+       * the association before setting the new one.
+       * The UID may also be given as the 16 bytes of a UUID, which is
+       * converted to the configured format.
+       * @param {[K, string | Uint8Array]} entry
+       * The key/value pair.
+       * @param {{ ttl?: number }} [expiry]
+       * Time to live in milliseconds, overriding the `ttl` option.
+       * Numbers, such as the index passed by `forEach`, are ignored.
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if validation fails.
+       * Returns `null` for all other errors (see `ErrorMode`).
+       */
+      set: guard(
+        "set",
+        (
+          $entry: [K, string | Uint8Array],
+          expiry?: TTLOptions | number,
+        ): boolean => {
+          const entry: [K, string] = [
+            $entry[0],
+            textOf($entry[1], generator.format),
+          ];
+          const [k, v] = [entry[0], normalize(entry[1]) as UID<T>];
+          checkUID(v, generator.format, { entry });
+          checkKey(k, { entry }, weak);
+          const ttl = ttlOf(expiry, defaultTTL);
+          if (ownerOf(v) !== undefined || generator.has(v) || claimed(v)) {
+            throw new DuplicateUIDError(`UID already exists: ${v}.`, { entry });
+          }
+          const oldUID = map.get(k);
+          if (oldUID) {
+            supersede(k, oldUID);
+            map.delete(k);
+            expires.delete(oldUID);
+          }
+          map.set(k, v);
+          expire(v, ttl);
+          trace("set", "Set UID.", k, v);
+          change("set", k, oldUID, v);
+          return true;
+        },
+        false,
+      ),
+
+      /**
+       * Delete a UID association for a given UID string. The UID is
+       * normalized first, as in `getKeyFor`.
+       * @param {string} uid
+       * The UID string.
+       * @returns {boolean|null}
+       * Returns `true|false` on success or failure.
+       * Returns `null` on error (see `ErrorMode`).
+       */
+      deleteUID: guard("deleteUID", ($uid: string): boolean => {
+        const uid = canonical($uid);
+        if (!map.hasUID(uid)) return false;
+        const key = map.keyFor(uid) as K;
+        const oldUID = map.get(key);
+        generator.release(uid);
+        map.delete(key);
+        links.unlink(key);
+        expires.delete(uid);
+        trace("deleteUID", "Deleted UID.", key, uid);
+        change("delete", key, oldUID, undefined);
         return true;
-      } catch (e) {
-        onError("set", e);
-        return null;
-      }
-    },
+      }),
+
+      /**
+       * Delete a UID association for a given key.
+       * @param {K} key
+       * The key entity reference.
+       * @returns {boolean|null}
+       * Returns `true|false` on success or failure.
+       * Returns `null` on error (see `ErrorMode`).
+       */
+      deleteUIDFor: guard("deleteUIDFor", (key: K): boolean => {
+        if (!map.has(key)) return false;
+        const uid = map.get(key) as UID<T>;
+        generator.release(uid);
+        map.delete(key);
+        links.unlink(key);
+        expires.delete(uid);
+        trace("deleteUIDFor", "Deleted UID.", key, uid);
+        change("delete", key, uid, undefined);
+        return true;
+      }),
+
+      /**
+       * Clear all currently held target:UID associations.
+       */
+      deleteAll: () => {
+        const previous = [...map.entries()];
+        previous.forEach(([, uid]) => generator.release(uid));
+        trace("deleteAll", `Deleted ${map.size} entries.`);
+        map.clear();
+        links.clear();
+        expires.clear();
+        previous.forEach(([key, oldUID]) => {
+          change("clear", key, oldUID, undefined);
+        });
+      },
+
+      /**
+       * Permanently retire a UID. Any association with the UID is
+       * deleted, and the UID is never generated or accepted by `set`
+       * again, regardless of the retention policy.
+       * @param {string} uid
+       * The UID string.
+       * @returns {boolean|null}
+       * Returns `true` on success or `false` if the UID is not valid.
+       * Returns `null` on error (see `ErrorMode`).
+       */
+      retireUID: guard(
+        "retireUID",
+        (uid: string): boolean => {
+          const v = normalize(uid);
+          checkUID(v, generator.format);
+          const owner = parts.get(ownerOf(v) as string);
+          const associated = !!owner?.map.hasUID(v);
+          const key = owner?.map.keyFor(v);
+          if (associated) {
+            owner?.map.delete(key as K);
+            owner?.expires.delete(v);
+            owner?.links.unlink(key as K);
+          } else if (owner?.links.get(v)?.supersededAt === undefined) {
+            owner?.links.delete(v);
+          }
+          generator.retire(v);
+          trace("retireUID", "Retired UID.", key, v);
+          if (associated) {
+            owner?.change("delete", key as K, v as UID<T>, undefined);
+          } else changed();
+          return true;
+        },
+        false,
+      ),
+
+      /**
+       * Forget a previously generated or retired UID so the generator
+       * history no longer holds it and `set` will accept it again. The
+       * association with the UID, if any, is left untouched.
+       * @param {string} uid
+       * The UID string.
+       * @returns {boolean}
+       * Returns `true` if the UID was remembered.
+       */
+      forgetUID: (uid: string): boolean => {
+        const forgotten = generator.forget(normalize(uid));
+        if (forgotten) {
+          trace("forgetUID", "Forgot UID.", undefined, uid);
+          changed();
+        }
+        return forgotten;
+      },
+
+      /**
+       * Subscribe to every change made to the map through the manager.
+       * Listeners are called synchronously after each change, with a
+       * `ChangeEvent` holding the `type`, `key`, `oldUID`, and `newUID`.
+       * Pass `{ batch: true }` to instead receive every event emitted
+       * during the current task as one array in a microtask. Exceptions
+       * thrown by listeners are logged and never affect the map.
+       * @param {ChangeListener|BatchListener} listener
+       * @param {{ batch?: boolean }} [options]
+       * @returns {Unsubscribe}
+       * Call to remove the listener.
+       * @example
+       * const unsubscribe = manager.subscribe(({ type, key, newUID }) => {
+       *   if (type === "generate") console.log(key, newUID);
+       * });
+       */
+      subscribe: events.subscribe as Subscribe<K, UID<T>>,
+
+      /**
+       * Subscribe to changes of a single `ChangeType`, e.g. `delete`.
+       * @param {ChangeType} type
+       * @param {ChangeListener} listener
+       * @returns {Unsubscribe}
+       * Call to remove the listener.
+       */
+      on: (type: ChangeType, listener: ChangeListener<K, UID<T>>) => {
+        const unsubscribe = events.on(type, listener);
+        return unsubscribe;
+      },
+
+      /**
+       * Write any pending changes to the `storage` adapter now, instead
+       * of waiting for the autosave.
+       * @returns {Promise<void>}
+       * Resolves once every write so far has finished. Resolves
+       * immediately if the manager has no `storage`.
+       */
+      flush: (): Promise<void> => (store ? store.flush() : Promise.resolve()),
+
+      /**
+       * Find which namespace holds an association with a UID.
+       * @param {string} uid
+       * The UID string.
+       * @returns {string|undefined}
+       * Returns the namespace name, `DEFAULT_NAMESPACE` for the
+       * manager's own map, or `undefined` if the UID is not associated.
+       */
+      whichNamespace: (uid: string) => ownerOf(normalize(uid)),
+
+      /**
+       * Retrieve the names of every namespace, starting with
+       * `DEFAULT_NAMESPACE`.
+       * @returns {string[]}
+       */
+      namespaces: (): string[] => [...parts.keys()],
+
+      /**
+       * Retrieve the name of the random source used to generate UIDs.
+       * @returns {RandomSourceName}
+       * `web-crypto`, `node-webcrypto`, `node-crypto`, `seeded`,
+       * `custom`, or `math-random` (not cryptographically secure).
+       */
+      getRandomSource: (): RandomSourceName => generator.source,
+
+      /**
+       * Retrieve a reference to the internal map object. The map keeps
+       * a reverse UID index in sync through its own `set`, `delete`,
+       * and `clear`, so direct edits are safe. Setting a UID that is
+       * already associated with a different key throws. In `weak` mode
+       * this is a `Map`-like object rather than a `Map` instance, and
+       * its iteration and `size` only reflect keys that have not been
+       * garbage collected. Expired associations are removed first.
+       * @returns {BiMap<K, UID<T>>}
+       */
+      getMap: (): BiMap<K, UID<T>> => {
+        purge();
+        return map;
+      },
+
+      /**
+       * Remove every expired association of the namespace now,
+       * emitting an `expire` event for each. Expired associations are
+       * otherwise removed when next looked up or listed, or by the
+       * `purgeInterval` timer.
+       * @returns {number}
+       * Returns the number of associations removed.
+       */
+      purgeExpired: (): number => purge(),
+    };
+
+    Object.freeze(self);
 
     /**
-     * Delete a UID association for a given UID string.
-     * @param {string} uid
-     * The UID string.
-     * @returns {boolean|null}
-     * Returns `true|false` on success or failure.
-     * Returns `null` on error.
+     * Apply a group of operations atomically. `fn` receives the
+     * namespace as `tx`; any failing operation inside it throws,
+     * regardless of the error mode. If `fn` throws, every namespace
+     * and the generator history are rolled back and no events are
+     * emitted. Otherwise the events of every operation are emitted
+     * once `fn` returns. `fn` must be synchronous.
+     * @param {(tx) => R} fn
+     * @returns {R|null}
+     * Returns the value returned by `fn`.
+     * Returns `null` on error (see `ErrorMode`).
+     * @example
+     * manager.transaction((tx) => {
+     *   tx.deleteUIDFor(oldUser);
+     *   tx.set([newUser, uid]); // rolls back the delete if it fails
+     * });
      */
-    deleteUID: (uid: string): boolean | null => {
-      try {
-        const entries = [...map.entries()];
-        const i = entries.findIndex((e) => uid === e[1]);
-        if (i < 0) return false;
-        const k = entries[i][0];
-        return map.delete(k);
-      } catch (e) {
-        onError("deleteUID", e);
-        return null;
-      }
-    },
+    const transaction = <R>(fn: (tx: typeof self) => R): Outcome<M, R> => {
+      const run = guard("transaction", () => atomically(() => fn(self)));
+      return run();
+    };
 
     /**
-     * Delete a UID association for a given key.
-     * @param {any} key
-     * The key entity reference.
+     * Set several associations atomically, as if by `set`.
+     * @param {[K, string][]} entries
+     * @param {{ ttl?: number }} [expiry]
+     * Time to live of every association, as in `set`.
      * @returns {boolean|null}
-     * Returns `true|false` on success or failure.
-     * Returns `null` on error.
+     * Returns `true` on success or `false` if validation fails, in
+     * which case nothing is set.
+     * Returns `null` for all other errors (see `ErrorMode`).
      */
-    deleteUIDFor: (key: any): boolean | null => {
-      try {
-        return map.has(key) && map.delete(key);
-      } catch (e) {
-        onError("deleteUIDFor", e);
-        return null;
-      }
-    },
+    const setMany = guard(
+      "setMany",
+      (entries: [K, string][], expiry?: TTLOptions): boolean => {
+        const setAll = () => {
+          entries.forEach((entry) => self.set(entry, expiry));
+          return true;
+        };
+        return atomically(setAll);
+      },
+      false,
+    );
 
     /**
-     * Clear all currently held target:UID associations.
+     * Delete the associations of several keys atomically, as if by
+     * `deleteUIDFor`.
+     * @param {K[]} keys
+     * @returns {number|null}
+     * Returns the number of associations deleted.
+     * Returns `null` on error (see `ErrorMode`).
      */
-    deleteAll: () => map.clear(),
+    const deleteMany = guard("deleteMany", (keys: K[]): number => {
+      const deleted = (key: K) => unwrap(self.deleteUIDFor(key));
+      return atomically(() => keys.filter(deleted).length);
+    });
 
     /**
-     * Retrieve a reference to the internal map object.
-     * @returns {Map<any, string>}
+     * Generate UIDs for several keys atomically, as if by
+     * `generateUIDFor`.
+     * @param {K[]} keys
+     * @param {{ ttl?: number }} [expiry]
+     * Time to live of every association, as in `generateUIDFor`.
+     * @returns {UID<T>[]|null}
+     * Returns the generated UIDs, in the order of `keys`. If any key
+     * is invalid, nothing is generated.
+     * Returns `null` on error (see `ErrorMode`).
      */
-    getMap: (): Map<any, string> => map,
+    const generateUIDsFor = guard(
+      "generateUIDsFor",
+      (keys: K[], expiry?: TTLOptions): UID<T>[] => {
+        const generate = (key: K) => unwrap(self.generateUIDFor(key, expiry));
+        return atomically(() => keys.map(generate));
+      },
+    );
+
+    const view = extend(self, {
+      transaction,
+      setMany,
+      deleteMany,
+      generateUIDsFor,
+    });
+    parts.set(name, {
+      map,
+      links,
+      expires,
+      purge,
+      change,
+      replace,
+      snapshotOf,
+      importFrom,
+      replicate,
+    });
+    registerReplica(view, replicate);
+    views.set(name, view);
+    return view;
+  };
+
+  const root = partition(DEFAULT_NAMESPACE);
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  if (interval !== undefined) {
+    timer = setInterval(() => {
+      parts.forEach((part) => part.purge());
+    }, interval);
+    (timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Stop the `purgeInterval` timer. Expired associations are still
+   * removed when next looked up or by `purgeExpired`.
+   * @returns {boolean}
+   * Returns `true` if a timer was stopped.
+   */
+  const clearPurgeInterval = (): boolean => {
+    if (timer === undefined) return false;
+    clearInterval(timer);
+    timer = undefined;
+    return true;
+  };
+
+  /**
+   * Retrieve the view of a namespace, creating it on first use. A
+   * view has every method of the manager except `namespace`, acting
+   * on its own key to UID map. All views share the generator, so a
+   * UID is never associated in more than one namespace.
+   * @param {string} name
+   * A non-empty name. `DEFAULT_NAMESPACE` retrieves the view of the
+   * manager's own map.
+   * @returns {UIDManagerView<K, T, M>}
+   * @example
+   * const users = UIDManager().namespace("users");
+   * users.generateUIDFor(user);
+   */
+  const namespace = (name: string) => {
+    if (typeof name !== "string" || !name) {
+      throw new Error("Namespace names must be non-empty strings.");
+    }
+    return views.get(name) || partition(name);
   };
 
-  return Object.freeze(self);
+  if (store) {
+    const codec = (options.storage?.codec || jsonKeyCodec) as KeyCodec<K>;
+    const codecs = options.storage?.codecs as
+      Record<string, KeyCodec<K>> | undefined;
+    const { importFrom, snapshotOf } = parts.get(DEFAULT_NAMESPACE) as Part<
+      K,
+      T
+    >;
+    const hydrate = (body: string) => {
+      try {
+        importFrom(JSON.parse(body), codec, undefined, codecs);
+        return true;
+      } catch (e) {
+        return false;
+      }
+    };
+    store.start(hydrate, () => JSON.stringify(snapshotOf(codec, codecs)));
+  }
+
+  const manager = extend(root, { namespace, clearPurgeInterval });
+  registerReplica(
+    manager,
+    (parts.get(DEFAULT_NAMESPACE) as Part<K, T>).replicate,
+  );
+  member = manager;
+  options.registry?.attach(manager);
+  return manager;
+};
+
+/**
+ * Create a `UIDManager` whose `storage` adapter may read
+ * asynchronously, e.g. `indexedDBAdapter`. Resolves once the manager
+ * has been hydrated from storage.
+ * @param {UIDManagerOptions} [options]
+ * @returns {Promise<UIDManagerInterface<K, T, M>>}
+ * @example
+ * const manager = await UIDManagerAsync({
+ *   storage: { adapter: indexedDBAdapter() },
+ * });
+ */
+export const UIDManagerAsync = async <
+  K = unknown,
+  T extends string = string,
+  M extends ErrorMode = "log",
+>(
+  options: UIDManagerOptions<M> = {},
+) => {
+  if (!options.storage) return UIDManager<K, T, M>(options);
+  const adapter = await preload(options.storage.adapter);
+  const storage = { ...options.storage, adapter };
+  return UIDManager<K, T, M>({ ...options, storage });
 };
 
-export type UIDManagerInterface = ReturnType<typeof UIDManager>;
+export type UIDManagerInterface<
+  K = unknown,
+  T extends string = string,
+  M extends ErrorMode = "log",
+> = ReturnType<typeof UIDManager<K, T, M>>;
+
+/**
+ * A namespace of a `UIDManager`, see `namespace()`.
+ */
+export type UIDManagerView<
+  K = unknown,
+  T extends string = string,
+  M extends ErrorMode = "log",
+> = ReturnType<UIDManagerInterface<K, T, M>["namespace"]>;
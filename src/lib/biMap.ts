@@ -0,0 +1,344 @@
+/**
+ * @file biMap.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const biMap, weakBiMap`
+ * A `Map` of keys to UID strings that also maintains a reverse
+ * index of UIDs to keys. The index is updated by the map's own
+ * `set`, `delete`, and `clear` methods, so it stays in sync even
+ * when the map is edited directly, and UID lookups are `O(1)`. Each
+ * entry also gets an increasing sequence number when it is added, so
+ * iteration can resume after an entry even once it is deleted.
+ * The weak variant holds its object keys weakly so they can be
+ * garbage collected.
+ */
+
+/**
+ * A key to UID `Map` with constant-time reverse lookups.
+ */
+export type BiMap<K = unknown, V extends string = string> = Map<K, V> & {
+  /**
+   * Retrieve the key associated with a UID, or `undefined`.
+   * @param {string} uid
+   * @returns {K|undefined}
+   */
+  keyFor: (uid: string) => K | undefined;
+
+  /**
+   * Check if a UID is associated with any key.
+   * @param {string} uid
+   * @returns {boolean}
+   */
+  hasUID: (uid: string) => boolean;
+
+  /**
+   * Visit the entries added after the one with sequence number `seq`,
+   * in iteration order, until `visit` returns `true`. Sequence
+   * numbers increase along the iteration order and start at `1`, so
+   * `0` visits every entry. The entry need not exist anymore.
+   * @param {number} seq
+   * @param {(key: K, uid: V, seq: number) => boolean} visit
+   */
+  visitAfter: (
+    seq: number,
+    visit: (key: K, uid: V, seq: number) => boolean,
+  ) => void;
+};
+
+/**
+ * Create a new `BiMap`. Every UID may be associated with only one key;
+ * setting a UID that already belongs to a different key throws.
+ * @param {Iterable<[K, V]>} [entries]
+ * Optional initial entries.
+ * @param {(undo: () => (() => void) | void) => void} [record]
+ * Called with the inverse of every later `set`, `delete`, and `clear`.
+ * An inverse may return a function to call once every inverse has
+ * run, which puts restored entries back in their place.
+ * @returns {BiMap<K, V>}
+ */
+export const biMap = <K = unknown, V extends string = string>(
+  entries?: Iterable<[K, V]>,
+  record: (undo: () => (() => void) | void) => void = () => {},
+): BiMap<K, V> => {
+  const map = new Map<K, V>();
+  const $map = map as BiMap<K, V>;
+  const index = new Map<string, K>();
+  const { set, delete: remove, clear } = Map.prototype;
+
+  /**
+   * Sequence number of each key, the key of each sequence number, and
+   * every sequence number in ascending order. Deleted numbers stay in
+   * `order` until they outnumber the live ones.
+   */
+  const seqs = new Map<K, number>();
+  const bySeq = new Map<number, K>();
+  let order: number[] = [];
+  let last = 0;
+
+  const forget = (key: K) => {
+    bySeq.delete(seqs.get(key) as number);
+    seqs.delete(key);
+    if (order.length > 2 * bySeq.size) {
+      order = order.filter((seq) => bySeq.has(seq));
+    }
+  };
+
+  /**
+   * Sort the entries and `order` by sequence number.
+   */
+  const settle = () => {
+    const sorted = [...seqs].sort(([, a], [, b]) => a - b);
+    const uids = sorted.map(([key]) => map.get(key) as V);
+    clear.call(map);
+    sorted.forEach(([key], i) => set.call(map, key, uids[i]));
+    order = sorted.map(([, seq]) => seq);
+  };
+
+  /**
+   * Undo the deletion of an entry. It is appended until `settle`.
+   */
+  const restore = (key: K, uid: V, seq: number) => {
+    index.set(uid, key);
+    set.call(map, key, uid);
+    seqs.set(key, seq);
+    bySeq.set(seq, key);
+    return settle;
+  };
+
+  /**
+   * Index in `order` of the first sequence number above `seq`.
+   */
+  const search = (seq: number) => {
+    let [low, high] = [0, order.length];
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (order[mid] <= seq) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  Object.defineProperties(map, {
+    set: {
+      value: (key: K, uid: V) => {
+        if (index.has(uid) && index.get(uid) !== key) {
+          throw new Error(`UID ${uid} is already associated with another key.`);
+        }
+        if (map.has(key)) {
+          const old = map.get(key) as V;
+          index.delete(old);
+          record(() => {
+            $map.set(key, old);
+          });
+        } else {
+          record(() => {
+            $map.delete(key);
+          });
+          last += 1;
+          seqs.set(key, last);
+          bySeq.set(last, key);
+          order.push(last);
+        }
+        index.set(uid, key);
+        set.call(map, key, uid);
+        return map;
+      },
+    },
+    delete: {
+      value: (key: K) => {
+        if (!map.has(key)) return false;
+        const old = map.get(key) as V;
+        const seq = seqs.get(key) as number;
+        index.delete(old);
+        forget(key);
+        record(() => restore(key, old, seq));
+        return remove.call(map, key);
+      },
+    },
+    clear: {
+      value: () => {
+        const old = [...map].map(([k, v]) => [k, v, seqs.get(k)] as const);
+        record(() => {
+          old.forEach(([k, v, seq]) => restore(k, v, seq as number));
+          return settle;
+        });
+        index.clear();
+        seqs.clear();
+        bySeq.clear();
+        order = [];
+        clear.call(map);
+      },
+    },
+    keyFor: { value: (uid: string) => index.get(uid) },
+    hasUID: { value: (uid: string) => index.has(uid) },
+    visitAfter: {
+      value: (seq: number, visit: (key: K, uid: V, seq: number) => boolean) => {
+        const current = order;
+        for (let i = search(seq); i < current.length; i += 1) {
+          const key = bySeq.get(current[i]);
+          if (key !== undefined && visit(key, map.get(key) as V, current[i])) {
+            return;
+          }
+        }
+      },
+    },
+  });
+
+  if (entries) [...entries].forEach(([k, v]) => $map.set(k, v));
+  return $map;
+};
+
+/**
+ * Check if a value can be held weakly.
+ * @param {unknown} key
+ * @returns {boolean}
+ */
+export const isWeakKey = (key: unknown): key is object => {
+  if (typeof key === "function") return true;
+  return typeof key === "object" && key !== null;
+};
+
+/**
+ * Create a `BiMap` that holds its keys weakly. Keys must be objects.
+ * Once a key is garbage collected its entry disappears, the reverse
+ * index is cleaned up, and `onCollect` is called with its UID.
+ *
+ * The result is not a `Map` instance. It supports the whole `Map`
+ * interface, but iteration, `size`, and `forEach` only reflect keys
+ * that have not been collected yet, which changes with every garbage
+ * collection.
+ * @param {(uid: V) => void} [onCollect]
+ * Called after the entry of a collected key has been removed.
+ * @param {(undo: () => (() => void) | void) => void} [record]
+ * Called with the inverse of every later `set`, `delete`, and
+ * `clear`, as in `biMap`.
+ * @returns {BiMap<K, V>}
+ */
+export const weakBiMap = <K extends object = object, V extends string = string>(
+  onCollect: (uid: V) => void = () => {},
+  record: (undo: () => (() => void) | void) => void = () => {},
+): BiMap<K, V> => {
+  let forward = new WeakMap<K, V>();
+  const index = new Map<string, WeakRef<K>>();
+
+  /**
+   * Sequence number of each UID. Every `set` adds the entry anew.
+   */
+  const seqs = new Map<string, number>();
+  let last = 0;
+  const registry = new FinalizationRegistry<V>((uid) => {
+    const ref = index.get(uid);
+    if (!ref || ref.deref() !== undefined) return;
+    index.delete(uid);
+    seqs.delete(uid);
+    onCollect(uid);
+  });
+
+  /**
+   * Sort the reverse index, which gives the iteration order, by
+   * sequence number.
+   */
+  const settle = () => {
+    const rank = ([uid]: [string, WeakRef<K>]) => seqs.get(uid) as number;
+    const sorted = [...index].sort((a, b) => rank(a) - rank(b));
+    index.clear();
+    sorted.forEach(([uid, ref]) => index.set(uid, ref));
+  };
+
+  /**
+   * Undo the deletion of an entry. It is appended until `settle`.
+   */
+  const restore = (key: K, uid: V, seq: number) => {
+    forward.set(key, uid);
+    index.set(uid, new WeakRef(key));
+    seqs.set(uid, seq);
+    registry.register(key, uid, key);
+    return settle;
+  };
+
+  const live = (): [K, V][] => {
+    const entries: [K, V][] = [];
+    index.forEach((ref, uid) => {
+      const key = ref.deref();
+      if (key !== undefined) entries.push([key, uid as V]);
+    });
+    return entries;
+  };
+
+  const self = {
+    get: (key: K) => forward.get(key),
+    has: (key: K) => forward.has(key),
+    set: (key: K, uid: V) => {
+      if (!isWeakKey(key)) throw new TypeError("Weak keys must be objects.");
+      const owner = index.get(uid)?.deref();
+      if (owner !== undefined && owner !== key) {
+        throw new Error(`UID ${uid} is already associated with another key.`);
+      }
+      if (forward.has(key)) self.delete(key);
+      record(() => {
+        self.delete(key);
+      });
+      forward.set(key, uid);
+      index.set(uid, new WeakRef(key));
+      last += 1;
+      seqs.set(uid, last);
+      registry.register(key, uid, key);
+      return self;
+    },
+    delete: (key: K) => {
+      if (!forward.has(key)) return false;
+      const old = forward.get(key) as V;
+      const seq = seqs.get(old) as number;
+      record(() => restore(key, old, seq));
+      index.delete(forward.get(key) as string);
+      seqs.delete(forward.get(key) as string);
+      forward.delete(key);
+      registry.unregister(key);
+      return true;
+    },
+    clear: () => {
+      const old = live();
+      const ranks = old.map(([, uid]) => seqs.get(uid) as number);
+      record(() => {
+        old.forEach(([k, v], i) => restore(k, v, ranks[i]));
+        return settle;
+      });
+      old.forEach(([key]) => registry.unregister(key));
+      index.clear();
+      seqs.clear();
+      forward = new WeakMap();
+    },
+    keyFor: (uid: string) => index.get(uid)?.deref(),
+    hasUID: (uid: string) => index.get(uid)?.deref() !== undefined,
+    visitAfter: (
+      seq: number,
+      visit: (key: K, uid: V, seq: number) => boolean,
+    ) => {
+      live().some(([key, uid]) => {
+        const n = seqs.get(uid) as number;
+        return n > seq && visit(key, uid, n);
+      });
+    },
+    get size() {
+      return live().length;
+    },
+    forEach: (fn: (uid: V, key: K, map: BiMap<K, V>) => void) => {
+      const map = self as unknown as BiMap<K, V>;
+      live().forEach(([key, uid]) => fn(uid, key, map));
+    },
+    entries: () => live().values(),
+    keys: () => {
+      const keys = live().map(([key]) => key);
+      return keys.values();
+    },
+    values: () => {
+      const uids = live().map(([, uid]) => uid);
+      return uids.values();
+    },
+    [Symbol.iterator]: () => live().values(),
+    [Symbol.toStringTag]: "WeakBiMap",
+  };
+  return self as unknown as BiMap<K, V>;
+};
@@ -0,0 +1,141 @@
+/**
+ * @file binary.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const parse, stringify, compare, equals, ...`
+ * Convert UUIDs between the canonical string form and the 16-byte
+ * binary form used by database columns and protobuf messages, and
+ * inspect or compare them. Comparisons use byte order, so version 7
+ * UUIDs sort by creation time.
+ */
+
+/* eslint-disable no-bitwise */
+
+import { InvalidUIDError } from "./errors";
+
+/**
+ * The nil UUID, with every bit set to zero.
+ */
+export const NIL = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * The max UUID, with every bit set to one.
+ */
+export const MAX = "ffffffff-ffff-ffff-ffff-ffffffffffff";
+
+/**
+ * The variant field of a UUID.
+ * - `ncs` : reserved, NCS backward compatibility.
+ * - `rfc9562` : the variant of every RFC 9562 (RFC 4122) UUID.
+ * - `microsoft` : reserved, Microsoft backward compatibility.
+ * - `future` : reserved for future definition, e.g. `MAX`.
+ */
+export type UUIDVariant = "ncs" | "rfc9562" | "microsoft" | "future";
+
+/**
+ * A UUID in either form.
+ */
+export type UUIDInput = string | Uint8Array;
+
+const pattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Lookup table holding 0-255 as hexadecimal numbers.
+ */
+const lookup: string[] = Array(256)
+  .fill(null)
+  .map((_, i) => i.toString(16).padStart(2, "0"));
+
+/**
+ * Convert a UUID string to its 16 bytes, most significant first.
+ * Any hyphenated UUID is accepted, including `NIL` and `MAX`.
+ * @param {string} uid
+ * @returns {Uint8Array}
+ * @example
+ * parse("ba7faa56-24a2-4098-9850-2cdb3d8e5e85"); // Uint8Array [186, 127, ...]
+ */
+export const parse = (uid: string): Uint8Array => {
+  if (typeof uid !== "string" || !pattern.test(uid)) {
+    throw new InvalidUIDError(`Invalid UUID ${uid}.`, { uid });
+  }
+  const hex = uid.replace(/-/g, "");
+  const byte = (i: number) => parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return Uint8Array.from({ length: 16 }, (_, i) => byte(i));
+};
+
+/**
+ * Convert 16 bytes to a lowercase UUID string.
+ * @param {Uint8Array} bytes
+ * @returns {string}
+ */
+export const stringify = (bytes: Uint8Array): string => {
+  if (!(bytes instanceof Uint8Array) || bytes.length !== 16) {
+    throw new InvalidUIDError("A binary UUID must be a 16 byte Uint8Array.");
+  }
+  const v = Array.from(bytes, (b) => lookup[b]);
+  const s = [
+    v.slice(0, 4).join(""),
+    v.slice(4, 6).join(""),
+    v.slice(6, 8).join(""),
+    v.slice(8, 10).join(""),
+    v.slice(10).join(""),
+  ];
+  return s.join("-");
+};
+
+/**
+ * Retrieve the bytes of a UUID in either form.
+ */
+const bytesOf = (uid: UUIDInput) => {
+  const text = typeof uid === "string" ? uid : stringify(uid);
+  return parse(text);
+};
+
+/**
+ * Compare two UUIDs in byte order.
+ * @param {UUIDInput} a
+ * @param {UUIDInput} b
+ * @returns {number}
+ * `-1` if `a` sorts first, `1` if `b` does, or `0` if equal.
+ * @example
+ * uids.sort(compare); // version 7 UUIDs in creation order
+ */
+export const compare = (a: UUIDInput, b: UUIDInput): number => {
+  const x = bytesOf(a);
+  const y = bytesOf(b);
+  const i = x.findIndex((byte, index) => byte !== y[index]);
+  if (i < 0) return 0;
+  return x[i] < y[i] ? -1 : 1;
+};
+
+/**
+ * Check whether two UUIDs are equal, regardless of form or case.
+ * @param {UUIDInput} a
+ * @param {UUIDInput} b
+ * @returns {boolean}
+ */
+export const equals = (a: UUIDInput, b: UUIDInput) => compare(a, b) === 0;
+
+/**
+ * Retrieve the version field of a UUID, e.g. `4` or `7`. `NIL` is
+ * version `0` and `MAX` version `15`.
+ * @param {UUIDInput} uid
+ * @returns {number}
+ */
+export const version = (uid: UUIDInput): number => bytesOf(uid)[6] >> 4;
+
+/**
+ * Retrieve the variant field of a UUID.
+ * @param {UUIDInput} uid
+ * @returns {UUIDVariant}
+ */
+export const variant = (uid: UUIDInput): UUIDVariant => {
+  const byte = bytesOf(uid)[8];
+  if (!(byte & 0x80)) return "ncs";
+  if (!(byte & 0x40)) return "rfc9562";
+  if (!(byte & 0x20)) return "microsoft";
+  return "future";
+};
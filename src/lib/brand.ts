@@ -0,0 +1,59 @@
+/**
+ * @file brand.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export type UID, export const isUID, assertUID`
+ * A branded string type for validated unique identifiers, with a
+ * type guard and an assertion function to produce it. Branding
+ * keeps UIDs from being mixed up with other strings, and the
+ * optional tag keeps UIDs of different entity kinds apart.
+ */
+
+import { validator } from "./uid";
+import { InvalidUIDError } from "./errors";
+
+declare const brand: unique symbol;
+
+/**
+ * A `string` known to be a valid unique identifier. Optionally
+ * tagged with an entity kind, e.g. `UID<"user">`, which is not
+ * assignable to `UID<"document">`.
+ */
+export type UID<T extends string = string> = string & {
+  readonly [brand]: T;
+};
+
+/**
+ * Check if a value is a valid RFC 9562 unique identifier.
+ * @param {unknown} value
+ * The value to test.
+ * @returns {boolean}
+ * @example
+ * if (isUID<"user">(id)) users.get(id); // id: UID<"user">
+ */
+export const isUID = <T extends string = string>(
+  value: unknown,
+): value is UID<T> => {
+  if (typeof value !== "string") return false;
+  return validator(value).length === 1;
+};
+
+/**
+ * Assert that a value is a valid RFC 9562 unique identifier.
+ * @param {unknown} value
+ * The value to test.
+ * @throws {InvalidUIDError}
+ * Throws if the value is not a valid UID.
+ * @example
+ * assertUID<"user">(id); // id: UID<"user"> from here on
+ */
+export const assertUID: <T extends string = string>(
+  value: unknown,
+) => asserts value is UID<T> = (value) => {
+  if (!isUID(value)) {
+    const uid = String(value);
+    throw new InvalidUIDError(`Invalid UID: ${uid}.`, { uid });
+  }
+};
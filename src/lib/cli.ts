@@ -0,0 +1,508 @@
+/**
+ * @file cli.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const cli, nodeIO`
+ * The `uidmanager` command: generate, validate, and convert UIDs,
+ * and inspect, diff, and merge exported snapshots. Every command
+ * reads and writes through a `CLIIO`, so it runs the same in a
+ * terminal and in tests.
+ */
+
+import { parseArgs } from "node:util";
+import { uid, validateDetailed } from "./uid";
+import type { UIDVersion, ValidationReport } from "./uid";
+import { canonicalize, decode, encode } from "./formats";
+import type { CompactFormat, FormatOption, UIDFormat } from "./formats";
+import { diff, toPatch } from "./diff";
+import type { Diff } from "./diff";
+import { migrateSnapshot } from "./snapshot";
+import type { KeyCodec, Snapshot } from "./snapshot";
+import { UIDManager } from "./UIDManager";
+import { nodeRequire } from "./random";
+import type { LogSink } from "./logger";
+
+/**
+ * Where the command reads input and writes output.
+ */
+export type CLIIO = {
+  /**
+   * Write to standard output.
+   */
+  stdout: (text: string) => void;
+
+  /**
+   * Write to standard error.
+   */
+  stderr: (text: string) => void;
+
+  /**
+   * Read all of standard input.
+   */
+  stdin: () => Promise<string>;
+
+  /**
+   * Read a UTF-8 file.
+   */
+  readFile: (path: string) => Promise<string>;
+};
+
+const usage = `Usage: uidmanager <command> [options]
+
+Commands:
+  generate [--count n] [--version 4|7] [--format name]
+      Print new UIDs. Formats: uuid, ulid, nanoid, base58, base62,
+      base64url.
+  validate [--format name] [file ...]
+      Report on each line of the files, or of standard input. Exits
+      with 1 if any line is invalid.
+  convert --to form [--from form] [id ...]
+      Convert the ids, or each line of standard input. Forms:
+      canonical, hex, compact (base62), base58, base62, base64url,
+      ulid. Without --from, canonical and hex input is detected.
+  snapshot inspect <file>
+      Summarize an exported snapshot.
+  snapshot diff <old> <new> [--namespace name]
+      Print the patch between two snapshots. Exits with 1 if they
+      differ.
+  snapshot merge <mine> <theirs> [--strategy mine|theirs|newest]
+      Print the merged snapshot.
+
+Options:
+  --json      Print one JSON document.
+  --ndjson    Print one JSON value per line.
+  -h, --help  Print this message.
+`;
+
+/**
+ * Thrown for invalid arguments; exits with 2 and the usage.
+ */
+class UsageError extends Error {}
+
+type Output = "text" | "json" | "ndjson";
+
+/**
+ * Options accepted by any command. Each command rejects the ones it
+ * does not use.
+ */
+const options = {
+  count: { type: "string", short: "n" },
+  version: { type: "string" },
+  format: { type: "string" },
+  from: { type: "string" },
+  to: { type: "string" },
+  namespace: { type: "string" },
+  strategy: { type: "string" },
+  json: { type: "boolean" },
+  ndjson: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Values = {
+  [
+    name in keyof typeof options
+  ]?: (typeof options)[name]["type"] extends "string" ? string : boolean;
+};
+
+const uidFormats: UIDFormat[] = [
+  "uuid",
+  "ulid",
+  "nanoid",
+  "base58",
+  "base62",
+  "base64url",
+];
+
+const compactFormats: CompactFormat[] = [
+  "ulid",
+  "base58",
+  "base62",
+  "base64url",
+];
+
+/**
+ * Keys of snapshots read by the command are kept as their JSON, so
+ * equal keys from different files compare equal.
+ */
+const jsonCodec: KeyCodec<string> = {
+  toKey: (key) => JSON.parse(key),
+  fromKey: (value) => JSON.stringify(value),
+};
+
+/**
+ * Reject options a command does not take.
+ */
+const only = (values: Values, allowed: (keyof Values)[]) => {
+  const extra = Object.keys(values).find(
+    (name) => !["json", "ndjson", ...allowed].includes(name),
+  );
+  if (extra) throw new UsageError(`Unknown option: --${extra}.`);
+};
+
+/**
+ * Send warnings and errors of the library to standard error, keeping
+ * standard output parseable.
+ */
+const sinkOf = (io: CLIIO): LogSink => {
+  const sink: LogSink = (event) => {
+    if (event.level === "warn" || event.level === "error") {
+      io.stderr(`uidmanager: ${event.message}\n`);
+    }
+  };
+  return sink;
+};
+
+/**
+ * Split text into its non-empty lines.
+ */
+const linesOf = (text: string) => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  return lines.filter(Boolean);
+};
+
+/**
+ * Write values as text lines, a JSON array, or NDJSON.
+ */
+const print = <V>(
+  io: CLIIO,
+  output: Output,
+  values: V[],
+  text: (value: V) => string,
+) => {
+  if (output === "json") io.stdout(`${JSON.stringify(values, null, 2)}\n`);
+  else if (output === "ndjson") {
+    values.forEach((value) => io.stdout(`${JSON.stringify(value)}\n`));
+  } else values.forEach((value) => io.stdout(`${text(value)}\n`));
+};
+
+const formatOf = (name: string | undefined): FormatOption => {
+  const format = (name ?? "uuid") as UIDFormat;
+  if (!uidFormats.includes(format)) {
+    throw new UsageError(`Unknown format: ${name}.`);
+  }
+  return format;
+};
+
+const generate = (io: CLIIO, values: Values, output: Output) => {
+  only(values, ["count", "version", "format"]);
+  const count = Number(values.count ?? 1);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`Invalid count: ${values.count}.`);
+  }
+  const version = Number(values.version ?? 4) as UIDVersion;
+  if (version !== 4 && version !== 7) {
+    throw new UsageError(`Invalid version: ${values.version}.`);
+  }
+  const format = formatOf(values.format);
+  const generator = uid([], { version, format, logger: sinkOf(io) });
+  const ids = [...new Array(count)].map(() => generator.generate());
+  print(io, output, ids, (id) => id);
+  return 0;
+};
+
+const validate = async (
+  io: CLIIO,
+  values: Values,
+  files: string[],
+  output: Output,
+) => {
+  only(values, ["format"]);
+  const format = formatOf(values.format);
+  const check = (ids: string[]): ValidationReport[] => {
+    if (format === "uuid") return validateDetailed(ids);
+    return uid([], { format, logger: sinkOf(io) }).validateDetailed(ids);
+  };
+  const sources = files.length ? files : ["-"];
+  const reports: (ValidationReport & { source: string; line: number })[] = [];
+  await sources.reduce(async (previous, source) => {
+    await previous;
+    const text = await (source === "-" ? io.stdin() : io.readFile(source));
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    const numbered = lines
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => line);
+    check(numbered.map(({ line }) => line)).forEach((report, index) => {
+      reports.push({ source, line: numbered[index].number, ...report });
+    });
+  }, Promise.resolve());
+  print(io, output, reports, (r) => {
+    const status = r.valid ? "valid" : `invalid (${r.reason})`;
+    return `${r.source}:${r.line}\t${status}\t${r.input}`;
+  });
+  return reports.every((report) => report.valid) ? 0 : 1;
+};
+
+type Form = "canonical" | "hex" | CompactFormat;
+
+const formOf = (name: string | undefined, flag: string): Form | undefined => {
+  if (name === undefined) return undefined;
+  if (name === "compact") return "base62";
+  if (name === "canonical" || name === "hex") return name;
+  if (compactFormats.includes(name as CompactFormat)) {
+    return name as CompactFormat;
+  }
+  throw new UsageError(`Unknown --${flag} form: ${name}.`);
+};
+
+const uuidPattern = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/;
+
+/**
+ * Read an id in the given form, or canonical or hex by default, as
+ * a lowercase UUID.
+ */
+const read = (id: string, from: Form | undefined) => {
+  if (from && from !== "canonical" && from !== "hex") return decode(id, from);
+  const uuid = canonicalize(id);
+  if (!uuidPattern.test(uuid)) throw new Error(`Invalid UUID: ${id}.`);
+  return uuid;
+};
+
+const spell = (uuid: string, to: Form) => {
+  if (to === "canonical") return uuid;
+  if (to === "hex") return uuid.replace(/-/g, "");
+  return encode(uuid, to);
+};
+
+const convert = async (
+  io: CLIIO,
+  values: Values,
+  ids: string[],
+  output: Output,
+) => {
+  only(values, ["from", "to"]);
+  const to = formOf(values.to, "to");
+  const from = formOf(values.from, "from");
+  if (!to) throw new UsageError("Missing --to.");
+  const inputs = ids.length ? ids : linesOf(await io.stdin());
+  const results = inputs.map((input) => {
+    try {
+      return { input, output: spell(read(input, from), to) };
+    } catch (e) {
+      return { input, error: (e as Error).message };
+    }
+  });
+  print(io, output, results, (r) => r.output ?? `error\t${r.error}`);
+  return results.every((r) => r.output !== undefined) ? 0 : 1;
+};
+
+const readSnapshot = async (io: CLIIO, path: string | undefined) => {
+  if (!path) throw new UsageError("Missing snapshot file.");
+  const raw = JSON.parse(await io.readFile(path));
+  return { raw, snapshot: migrateSnapshot(raw) };
+};
+
+const inspect = async (io: CLIIO, path: string, output: Output) => {
+  const { raw, snapshot } = await readSnapshot(io, path);
+  const namespaces = Object.fromEntries(
+    Object.entries(snapshot.namespaces).map(([n, e]) => [n, e.length]),
+  );
+  const summary = {
+    file: path,
+    version: snapshot.version,
+    sourceVersion: Array.isArray(raw) ? 0 : raw.version,
+    uidVersion: snapshot.uidVersion,
+    settings: snapshot.settings,
+    entries: snapshot.entries.length,
+    namespaces,
+    links: snapshot.links.length,
+    expires: snapshot.expires.length,
+    history: {
+      uids: snapshot.history.uids.length,
+      retired: snapshot.history.retired.length,
+    },
+  };
+  if (output !== "text") print(io, "ndjson", [summary], () => "");
+  else {
+    Object.entries(summary).forEach(([name, value]) => {
+      const text = typeof value === "object" ? JSON.stringify(value) : value;
+      io.stdout(`${name}: ${text}\n`);
+    });
+  }
+  return 0;
+};
+
+/**
+ * The entries of a namespace of a snapshot, keyed by their JSON.
+ */
+const entriesOf = (snapshot: Snapshot, name: string | undefined) => {
+  const entries =
+    name === undefined ? snapshot.entries : (snapshot.namespaces[name] ?? []);
+  return entries.map(([k, v]): [string, string] => [jsonCodec.fromKey(k), v]);
+};
+
+const patchOf = async (io: CLIIO, paths: string[], values: Values) => {
+  const [a, b] = await Promise.all(paths.map((p) => readSnapshot(io, p)));
+  const changes: Diff<string> = diff(
+    entriesOf(a.snapshot, values.namespace),
+    entriesOf(b.snapshot, values.namespace),
+  );
+  return toPatch(changes, jsonCodec);
+};
+
+const diffSnapshots = async (
+  io: CLIIO,
+  values: Values,
+  paths: string[],
+  output: Output,
+) => {
+  only(values, ["namespace"]);
+  if (paths.length !== 2) throw new UsageError("Expected two snapshots.");
+  const patch = await patchOf(io, paths, values);
+  const ops = [
+    ...patch.removed.map(([key, v]) => ({
+      op: "removed" as const,
+      key,
+      uid: v,
+    })),
+    ...patch.added.map(([key, v]) => ({ op: "added" as const, key, uid: v })),
+    ...patch.changed.map((c) => ({ op: "changed" as const, ...c })),
+    ...patch.rekeyed.map((r) => ({ op: "rekeyed" as const, ...r })),
+  ];
+  if (output === "json") io.stdout(`${JSON.stringify(patch, null, 2)}\n`);
+  else {
+    print(io, output, ops, (o) => {
+      if (o.op === "added") return `+ ${JSON.stringify(o.key)} ${o.uid}`;
+      if (o.op === "removed") return `- ${JSON.stringify(o.key)} ${o.uid}`;
+      if (o.op === "changed") {
+        return `~ ${JSON.stringify(o.key)} ${o.from} -> ${o.to}`;
+      }
+      return `> ${o.uid} ${JSON.stringify(o.from)} -> ${JSON.stringify(o.to)}`;
+    });
+  }
+  return ops.length ? 1 : 0;
+};
+
+const mergeSnapshots = async (
+  io: CLIIO,
+  values: Values,
+  paths: string[],
+  output: Output,
+) => {
+  only(values, ["strategy"]);
+  if (paths.length !== 2) throw new UsageError("Expected two snapshots.");
+  const strategy = values.strategy ?? "mine";
+  if (!["mine", "theirs", "newest"].includes(strategy)) {
+    throw new UsageError(`Unknown strategy: ${strategy}.`);
+  }
+  const [a, b] = await Promise.all(paths.map((p) => readSnapshot(io, p)));
+  const mine = a.snapshot;
+  const manager = UIDManager<string, string, "throw">({
+    ...mine.settings,
+    version: mine.uidVersion,
+    errors: "throw",
+    logger: sinkOf(io),
+  });
+  manager.importSnapshot(mine, { codec: jsonCodec });
+  const theirs = { ...b.snapshot, links: [], expires: [] };
+  const how = strategy as "mine" | "theirs" | "newest";
+  manager.merge(theirs, how, { codec: jsonCodec });
+  Object.entries(theirs.namespaces).forEach(([name, entries]) => {
+    const view = manager.namespace(name);
+    view.merge({ ...theirs, entries, namespaces: {} }, how, {
+      codec: jsonCodec,
+    });
+  });
+  const merged = manager.exportSnapshot({ codec: jsonCodec });
+  const json = JSON.stringify(merged, null, output === "ndjson" ? 0 : 2);
+  io.stdout(`${json}\n`);
+  return 0;
+};
+
+const snapshotCommand = async (
+  io: CLIIO,
+  values: Values,
+  args: string[],
+  output: Output,
+) => {
+  const [sub, ...paths] = args;
+  if (sub === "inspect") {
+    only(values, []);
+    if (paths.length !== 1) throw new UsageError("Expected one snapshot.");
+    return inspect(io, paths[0], output);
+  }
+  if (sub === "diff") return diffSnapshots(io, values, paths, output);
+  if (sub === "merge") return mergeSnapshots(io, values, paths, output);
+  throw new UsageError(`Unknown snapshot command: ${sub ?? ""}.`);
+};
+
+/**
+ * Read all of the standard input of the current Node process.
+ */
+const readStdin = (): Promise<string> => {
+  let text = "";
+  process.stdin.setEncoding("utf8");
+  process.stdin.on("data", (chunk) => {
+    text += chunk;
+  });
+  return new Promise((resolve, reject) => {
+    process.stdin.on("end", () => resolve(text));
+    process.stdin.on("error", reject);
+  });
+};
+
+/**
+ * The `CLIIO` of the current Node process.
+ * @returns {CLIIO}
+ */
+export const nodeIO = (): CLIIO => {
+  const fs = nodeRequire("node:fs") as typeof import("node:fs");
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    stdin: readStdin,
+    readFile: (path) => fs.promises.readFile(path, "utf8"),
+  };
+};
+
+/**
+ * Run the `uidmanager` command.
+ * @param {string[]} argv
+ * The arguments after the executable, e.g. `process.argv.slice(2)`.
+ * @param {CLIIO} [io]
+ * Defaults to the process streams and file system, see `nodeIO`.
+ * @returns {Promise<number>}
+ * Resolves with the exit code: `0` on success, `1` if a command
+ * fails or finds invalid input, `2` for invalid arguments.
+ * @example
+ * const code = await cli(["generate", "--count", "3", "--json"]);
+ */
+export const cli = async (argv: string[], io: CLIIO = nodeIO()) => {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options,
+      allowPositionals: true,
+    });
+    const [command, ...args] = positionals;
+    if (values.help || command === undefined) {
+      io.stdout(usage);
+      return values.help ? 0 : 2;
+    }
+    if (values.json && values.ndjson) {
+      throw new UsageError("Pass only one of --json and --ndjson.");
+    }
+    let output: Output = "text";
+    if (values.json) output = "json";
+    if (values.ndjson) output = "ndjson";
+    if (command === "generate") {
+      if (args.length) throw new UsageError("generate takes no arguments.");
+      return generate(io, values, output);
+    }
+    if (command === "validate") return await validate(io, values, args, output);
+    if (command === "convert") return await convert(io, values, args, output);
+    if (command === "snapshot") {
+      return await snapshotCommand(io, values, args, output);
+    }
+    throw new UsageError(`Unknown command: ${command}.`);
+  } catch (e) {
+    const error = e as Error & { code?: string };
+    const invalid =
+      error instanceof UsageError || !!error.code?.startsWith("ERR_PARSE_ARGS");
+    io.stderr(`uidmanager: ${error.message}\n`);
+    if (!invalid) return 1;
+    io.stderr("Run uidmanager --help for usage.\n");
+    return 2;
+  }
+};
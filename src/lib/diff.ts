@@ -0,0 +1,261 @@
+/**
+ * @file diff.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const diff, toPatch, readPatch, PATCH_FORMAT, ...`
+ * Compare the entries of two `UIDManager` states, e.g. a client's
+ * copy and the server's. A `Diff` lists the associations that were
+ * added, removed, moved to another key, or given another UID, and
+ * converts to a JSON-safe `Patch` that `applyPatch` replays on a
+ * manager.
+ */
+
+import { InvalidPatchError } from "./errors";
+import { isRecord, jsonKeyCodec } from "./snapshot";
+import type { KeyCodec, Snapshot } from "./snapshot";
+
+/**
+ * Value of `format` in every patch.
+ */
+export const PATCH_FORMAT = "uidmanager-patch";
+
+/**
+ * The patch schema version written by `toPatch`.
+ */
+export const PATCH_VERSION = 1;
+
+/**
+ * Anything with entries to compare: a `UIDManager`, a namespace
+ * view, or an `entries()` array.
+ */
+export type DiffSource<K = unknown> =
+  | [K, string][]
+  | {
+      entries: () => [K, string][];
+
+      /**
+       * When a UID was added to the source's history, used by the
+       * `newest` merge strategy. Every `UIDManager` has one.
+       */
+      addedAt?: (uid: string) => number | undefined;
+    };
+
+/**
+ * What `merge` accepts: a `DiffSource` or a `Snapshot`, whose keys
+ * are decoded with the given codec.
+ */
+export type MergeSource<K = unknown> = DiffSource<K> | Snapshot;
+
+/**
+ * The changes that turn one set of entries into another. UIDs are
+ * compared as given, so both sides should use the same format.
+ */
+export type Diff<K = unknown> = {
+  /**
+   * Entries of the new state whose key and UID are both new.
+   */
+  added: [K, string][];
+
+  /**
+   * Entries of the old state whose UID is gone and whose key did not
+   * get a new UID instead.
+   */
+  removed: [K, string][];
+
+  /**
+   * UIDs that moved from one key to another.
+   */
+  rekeyed: { uid: string; from: K; to: K }[];
+
+  /**
+   * Keys that were given a new UID in place of one that is gone.
+   */
+  changed: { key: K; from: string; to: string }[];
+};
+
+/**
+ * A `Diff` whose keys are encoded by a `KeyCodec`, ready for
+ * `JSON.stringify`.
+ */
+export type Patch = {
+  format: typeof PATCH_FORMAT;
+  version: number;
+  added: [unknown, string][];
+  removed: [unknown, string][];
+  rekeyed: { uid: string; from: unknown; to: unknown }[];
+  changed: { key: unknown; from: string; to: string }[];
+};
+
+/**
+ * One of the clashes `merge` resolves: the two entries share a key
+ * but not a UID, or a UID but not a key.
+ */
+export type MergeConflict<K = unknown> = {
+  mine: [K, string];
+  theirs: [K, string];
+};
+
+/**
+ * How `merge` resolves conflicts: keep `mine`, keep `theirs`, keep
+ * the UID added to its history most recently (`newest`, UIDs without
+ * a time count as oldest and ties keep `mine`), or ask a resolver.
+ */
+export type MergeStrategy<K = unknown> =
+  | "mine"
+  | "theirs"
+  | "newest"
+  | ((conflict: MergeConflict<K>) => "mine" | "theirs");
+
+const entriesOf = <K>(source: DiffSource<K>): [K, string][] => {
+  if (Array.isArray(source)) return source;
+  return source.entries();
+};
+
+/**
+ * Compare two states.
+ * @template K
+ * Type of the keys.
+ * @param {DiffSource<K>} a
+ * The old state.
+ * @param {DiffSource<K>} b
+ * The new state.
+ * @returns {Diff<K>}
+ * @example
+ * const changes = diff(client, server);
+ * client.applyPatch(changes); // client now has the server's entries
+ */
+export const diff = <K = unknown>(
+  a: DiffSource<K>,
+  b: DiffSource<K>,
+): Diff<K> => {
+  const before = new Map(entriesOf(a));
+  const after = new Map(entriesOf(b));
+  const keyOf = (entries: Map<K, string>) => {
+    const flipped = [...entries].map(([k, v]): [string, K] => [v, k]);
+    return new Map(flipped);
+  };
+  const was = keyOf(before);
+  const is = keyOf(after);
+  const result: Diff<K> = {
+    added: [],
+    removed: [],
+    rekeyed: [],
+    changed: [],
+  };
+  before.forEach((v, k) => {
+    if (is.has(v)) return;
+    const next = after.get(k);
+    if (next !== undefined && !was.has(next)) {
+      result.changed.push({ key: k, from: v, to: next });
+    } else result.removed.push([k, v]);
+  });
+  after.forEach((v, k) => {
+    const from = was.get(v);
+    if (from === undefined) {
+      const previous = before.get(k);
+      if (previous === undefined || is.has(previous)) result.added.push([k, v]);
+    } else if (from !== k) result.rekeyed.push({ uid: v, from, to: k });
+  });
+  return result;
+};
+
+/**
+ * Convert a `Diff` to a JSON-safe `Patch`.
+ * @template K
+ * Type of the keys.
+ * @param {Diff<K>} changes
+ * @param {KeyCodec<K>} [codec]
+ * Encodes the keys. Defaults to `jsonKeyCodec`.
+ * @returns {Patch}
+ */
+export const toPatch = <K = unknown>(
+  changes: Diff<K>,
+  codec = jsonKeyCodec as KeyCodec<K>,
+): Patch => {
+  const { toKey } = codec;
+  return {
+    format: PATCH_FORMAT,
+    version: PATCH_VERSION,
+    added: changes.added.map(([k, v]) => [toKey(k), v]),
+    removed: changes.removed.map(([k, v]) => [toKey(k), v]),
+    rekeyed: changes.rekeyed.map(({ uid, from, to }) => ({
+      uid,
+      from: toKey(from),
+      to: toKey(to),
+    })),
+    changed: changes.changed.map(({ key, from, to }) => ({
+      key: toKey(key),
+      from,
+      to,
+    })),
+  };
+};
+
+const isPair = (value: unknown) => {
+  if (!Array.isArray(value) || value.length !== 2) return false;
+  return typeof value[1] === "string";
+};
+
+const isRekey = (value: unknown) => {
+  if (!isRecord(value) || typeof value.uid !== "string") return false;
+  return "from" in value && "to" in value;
+};
+
+const isChange = (value: unknown) => {
+  if (!isRecord(value) || typeof value.from !== "string") return false;
+  return typeof value.to === "string" && "key" in value;
+};
+
+const isDiff = (value: unknown) => {
+  if (!isRecord(value)) return false;
+  const lists = [value.added, value.removed, value.rekeyed, value.changed];
+  if (!lists.every(Array.isArray)) return false;
+  const [added, removed, rekeyed, changed] = lists;
+  return (
+    added.every(isPair) &&
+    removed.every(isPair) &&
+    rekeyed.every(isRekey) &&
+    changed.every(isChange)
+  );
+};
+
+/**
+ * Read a `Patch`, decoding its keys, or check a `Diff`.
+ * @template K
+ * Type of the keys.
+ * @param {unknown} patch
+ * @param {KeyCodec<K>} [codec]
+ * Decodes the keys of a `Patch`. Defaults to `jsonKeyCodec`.
+ * @returns {Diff<K>}
+ * Throws `InvalidPatchError` if the patch is malformed or has an
+ * unknown format or version.
+ */
+export const readPatch = <K = unknown>(
+  patch: unknown,
+  codec = jsonKeyCodec as KeyCodec<K>,
+): Diff<K> => {
+  const value = patch as Patch;
+  if (!isDiff(value)) throw new InvalidPatchError("Patch is malformed.");
+  if (value.format === undefined) return value as unknown as Diff<K>;
+  if (value.format !== PATCH_FORMAT || value.version !== PATCH_VERSION) {
+    const msg = `Unknown patch format: ${value.format} ${value.version}.`;
+    throw new InvalidPatchError(msg);
+  }
+  const { fromKey } = codec;
+  return {
+    added: value.added.map(([k, v]) => [fromKey(k), v]),
+    removed: value.removed.map(([k, v]) => [fromKey(k), v]),
+    rekeyed: value.rekeyed.map(({ uid, from, to }) => ({
+      uid,
+      from: fromKey(from),
+      to: fromKey(to),
+    })),
+    changed: value.changed.map(({ key, from, to }) => ({
+      key: fromKey(key),
+      from,
+      to,
+    })),
+  };
+};
@@ -0,0 +1,113 @@
+/**
+ * @file errors.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export class UIDManagerError, InvalidKeyError, ...`
+ * Typed errors raised by `UIDManager`, and the `Result` type
+ * returned when the manager is created with `errors: "result"`.
+ */
+
+/* eslint-disable max-classes-per-file */
+
+/**
+ * How `UIDManager` methods report failures.
+ * - `log` : Log to the console and return `null` or `false` (default).
+ * - `throw` : Throw a `UIDManagerError` (or the original error).
+ * - `result` : Return a `Result` object instead of the plain value.
+ */
+export type ErrorMode = "log" | "throw" | "result";
+
+/**
+ * The outcome of a `UIDManager` method in `result` mode.
+ */
+export type Result<V> =
+  | { ok: true; value: V; error: undefined }
+  | { ok: false; value: undefined; error: Error };
+
+/**
+ * Return type of a fallible `UIDManager` method for an `ErrorMode`.
+ * In `log` mode failures are signaled by `null` (or `false`).
+ */
+export type Outcome<M extends ErrorMode, V> = M extends "result"
+  ? Result<V>
+  : M extends "throw"
+    ? V
+    : V | null;
+
+/**
+ * Details carried by every `UIDManagerError`.
+ */
+export type ErrorDetails = {
+  /**
+   * The offending key, if any.
+   */
+  key?: unknown;
+
+  /**
+   * The offending UID, if any.
+   */
+  uid?: string;
+
+  /**
+   * The offending `[key, uid]` entry for `set` and `restore`.
+   */
+  entry?: [unknown, string];
+
+  /**
+   * Index of the offending entry for `restore`.
+   */
+  index?: number;
+};
+
+/**
+ * Base class for all validation errors raised by `UIDManager`.
+ */
+export class UIDManagerError extends Error {
+  key?: unknown;
+
+  uid?: string;
+
+  entry?: [unknown, string];
+
+  index?: number;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    const { entry } = details;
+    this.key = entry ? entry[0] : details.key;
+    this.uid = entry ? entry[1] : details.uid;
+    this.entry = entry;
+    this.index = details.index;
+  }
+}
+
+/**
+ * A key is `undefined`, `null`, `NaN`, or otherwise unusable.
+ */
+export class InvalidKeyError extends UIDManagerError {}
+
+/**
+ * A UID is not a valid RFC 9562 unique identifier.
+ */
+export class InvalidUIDError extends UIDManagerError {}
+
+/**
+ * A UID is already associated with a key, was generated before,
+ * or appears more than once in the same call.
+ */
+export class DuplicateUIDError extends UIDManagerError {}
+
+/**
+ * A snapshot is malformed, has an unknown format, or has a version
+ * that can not be migrated.
+ */
+export class InvalidSnapshotError extends UIDManagerError {}
+
+/**
+ * A patch is malformed, or does not apply to the current entries.
+ */
+export class InvalidPatchError extends UIDManagerError {}
@@ -0,0 +1,179 @@
+/**
+ * @file events.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const emitter`
+ * Change events emitted by `UIDManager` whenever an association is
+ * added, replaced, or removed. Listeners are called after the map
+ * has been updated and any exception they throw is caught, so a
+ * misbehaving listener can never leave the map half changed.
+ */
+
+/**
+ * Kinds of `ChangeEvent`.
+ * - `generate` : `generateUIDFor` associated a UID with a new key.
+ * - `regenerate` : `generateUIDFor` replaced the UID of a key.
+ * - `set` : `set` or `deriveUIDFor` associated a UID with a key.
+ * - `delete` : an association was deleted or its UID retired.
+ * - `clear` : `deleteAll` removed an association.
+ * - `restore` : `restore` associated a UID with a key.
+ * - `expire` : an association outlived its TTL and was removed.
+ */
+export type ChangeType =
+  "generate" | "regenerate" | "set" | "delete" | "clear" | "restore" | "expire";
+
+const types: ChangeType[] = [
+  "generate",
+  "regenerate",
+  "set",
+  "delete",
+  "clear",
+  "restore",
+  "expire",
+];
+
+/**
+ * A single change to one association. `clear` and `restore` emit
+ * one event per affected entry.
+ */
+export type ChangeEvent<K = unknown, V extends string = string> = {
+  type: ChangeType;
+
+  /**
+   * The key whose association changed.
+   */
+  key: K;
+
+  /**
+   * The UID associated with the key before the change, if any.
+   */
+  oldUID: V | undefined;
+
+  /**
+   * The UID associated with the key after the change, if any.
+   */
+  newUID: V | undefined;
+};
+
+/**
+ * Called once for every `ChangeEvent`.
+ */
+export type ChangeListener<K = unknown, V extends string = string> = (
+  event: ChangeEvent<K, V>,
+) => void;
+
+/**
+ * Called once per microtask with every `ChangeEvent` emitted since
+ * the previous call, in order.
+ */
+export type BatchListener<K = unknown, V extends string = string> = (
+  events: ChangeEvent<K, V>[],
+) => void;
+
+/**
+ * Remove a listener. Calling it more than once has no effect.
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Subscribe to every `ChangeEvent`. Pass `{ batch: true }` to receive
+ * events coalesced into one array per microtask instead.
+ */
+export type Subscribe<K = unknown, V extends string = string> = {
+  (listener: ChangeListener<K, V>, options?: { batch?: false }): Unsubscribe;
+  (listener: BatchListener<K, V>, options: { batch: true }): Unsubscribe;
+};
+
+/**
+ * Dispatches `ChangeEvent`s to subscribed listeners.
+ */
+export type Emitter<K = unknown, V extends string = string> = {
+  /**
+   * Send an event to every current listener.
+   */
+  emit: (event: ChangeEvent<K, V>) => void;
+
+  subscribe: Subscribe<K, V>;
+
+  /**
+   * Subscribe to events of a single `ChangeType`.
+   */
+  on: (type: ChangeType, listener: ChangeListener<K, V>) => Unsubscribe;
+};
+
+/**
+ * Create an `Emitter`.
+ * @param {(error: unknown, event: ChangeEvent) => void} onListenerError
+ * Called with any exception thrown by a listener, and the event (or
+ * first event of a batch) it was handling.
+ * @returns {Emitter<K, V>}
+ */
+export const emitter = <K = unknown, V extends string = string>(
+  onListenerError: (error: unknown, event: ChangeEvent<K, V>) => void,
+): Emitter<K, V> => {
+  const listeners = new Set<{ fn: ChangeListener<K, V> }>();
+  const batches = new Set<{
+    fn: BatchListener<K, V>;
+    queue: ChangeEvent<K, V>[];
+  }>();
+  let scheduled = false;
+
+  const call = <E>(fn: (e: E) => void, e: E, event: ChangeEvent<K, V>) => {
+    try {
+      fn(e);
+    } catch (error) {
+      onListenerError(error, event);
+    }
+  };
+
+  const flush = () => {
+    scheduled = false;
+    [...batches].forEach((batch) => {
+      const events = batch.queue.splice(0);
+      if (events.length) call(batch.fn, events, events[0]);
+    });
+  };
+
+  const emit = (event: ChangeEvent<K, V>) => {
+    const frozen = Object.freeze({ ...event });
+    [...listeners].forEach(({ fn }) => call(fn, frozen, frozen));
+    if (!batches.size) return;
+    batches.forEach(({ queue }) => queue.push(frozen));
+    if (!scheduled) {
+      scheduled = true;
+      queueMicrotask(flush);
+    }
+  };
+
+  const subscribe = ((listener: unknown, options: { batch?: boolean } = {}) => {
+    if (typeof listener !== "function") {
+      throw new Error("Listeners must be functions.");
+    }
+    if (options.batch) {
+      const batch = { fn: listener as BatchListener<K, V>, queue: [] };
+      batches.add(batch);
+      return () => {
+        batches.delete(batch);
+      };
+    }
+    const entry = { fn: listener as ChangeListener<K, V> };
+    listeners.add(entry);
+    return () => {
+      listeners.delete(entry);
+    };
+  }) as Subscribe<K, V>;
+
+  const on = (type: ChangeType, listener: ChangeListener<K, V>) => {
+    if (!types.includes(type)) throw new Error(`Invalid event type: ${type}.`);
+    if (typeof listener !== "function") {
+      throw new Error("Listeners must be functions.");
+    }
+    return subscribe((event) => {
+      if (event.type === type) listener(event);
+    });
+  };
+
+  return Object.freeze({ emit, subscribe, on });
+};
@@ -0,0 +1,352 @@
+/**
+ * @file formats.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const createFormat, encode, decode, canonicalize`
+ * String formats for generated identifiers besides the canonical
+ * hyphenated UUID: ULID, NanoID, and compact base58, base62, and
+ * base64url spellings of a UUID. The compact spellings hold the
+ * same 128 bits as the UUID, so `encode` and `decode` convert
+ * between them without loss.
+ */
+
+/* eslint-disable no-bitwise */
+
+/**
+ * Formats a generator can produce.
+ * - `uuid` : canonical hyphenated RFC 9562 UUID (default).
+ * - `ulid` : 26 character Crockford base32 ULID, sorted by time.
+ * - `nanoid` : random string, 21 URL-safe characters by default.
+ * - `base58`, `base62`, `base64url` : 22 character spellings of a
+ * UUID, decodable back to it with `decode`.
+ */
+export type UIDFormat =
+  "uuid" | "ulid" | "nanoid" | "base58" | "base62" | "base64url";
+
+/**
+ * Formats that `encode` and `decode` convert a UUID to and from.
+ */
+export type CompactFormat = "ulid" | "base58" | "base62" | "base64url";
+
+/**
+ * NanoID settings.
+ */
+export type NanoIDOptions = {
+  type: "nanoid";
+
+  /**
+   * Characters to draw from. Defaults to the URL-safe base64url
+   * alphabet.
+   */
+  alphabet?: string;
+
+  /**
+   * Number of characters. Defaults to `21`.
+   */
+  size?: number;
+};
+
+/**
+ * The `format` option of `uid()` and `UIDManager()`.
+ */
+export type FormatOption = UIDFormat | NanoIDOptions;
+
+/**
+ * A configured format.
+ */
+export type Format = {
+  name: UIDFormat;
+
+  /**
+   * Check whether a string is an identifier in this format.
+   */
+  test: (id: string) => boolean;
+
+  /**
+   * Spell an identifier the way it is stored and compared, e.g.
+   * canonical for UUIDs (see `canonicalize`) and uppercase for
+   * ULIDs. Case-sensitive formats are returned unchanged.
+   */
+  normalize: (id: string) => string;
+
+  /**
+   * Convert a canonical UUID to this format. Missing for formats
+   * that do not encode UUIDs (`nanoid`).
+   */
+  fromUUID?: (uuid: string) => string;
+
+  /**
+   * Generate an identifier directly. Missing for formats built from
+   * a generated UUID.
+   */
+  generate?: () => string;
+};
+
+/**
+ * What a format needs from its generator.
+ */
+export type FormatContext = {
+  /**
+   * Check whether a string is a UUID the generator accepts.
+   */
+  isUUID: (id: string) => boolean;
+
+  /**
+   * Retrieve a random 32-bit unsigned integer.
+   */
+  random: () => number;
+
+  /**
+   * Unix timestamp in milliseconds, for ULIDs.
+   */
+  clock: () => number;
+};
+
+const alphabets: Record<CompactFormat, string> = {
+  ulid: "0123456789ABCDEFGHJKMNPQRSTVWXYZ",
+  base58: "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz",
+  base62: "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz",
+  base64url: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_",
+};
+
+const lengths: Record<CompactFormat, number> = {
+  ulid: 26,
+  base58: 22,
+  base62: 22,
+  base64url: 22,
+};
+
+/**
+ * Zero bits appended before encoding, so base64url matches the
+ * unpadded base64url encoding of the 16 UUID bytes.
+ */
+const padding: Record<CompactFormat, bigint> = {
+  ulid: 0n,
+  base58: 0n,
+  base62: 0n,
+  base64url: 4n,
+};
+
+const max = 1n << 128n;
+
+const hexPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Rewrite the alternate spellings of a UUID in canonical form:
+ * lowercase and hyphenated, without `{}` braces or a `urn:uuid:`
+ * prefix. 32 hexadecimal digits without hyphens are hyphenated.
+ * Other strings are only lowercased, so they still fail validation.
+ * @param {string} id
+ * @returns {string}
+ * @example
+ * canonicalize("{BA7FAA56-24A2-4098-9850-2CDB3D8E5E85}");
+ * canonicalize("urn:uuid:ba7faa56-24a2-4098-9850-2cdb3d8e5e85");
+ * canonicalize("ba7faa5624a2409898502cdb3d8e5e85");
+ * // "ba7faa56-24a2-4098-9850-2cdb3d8e5e85"
+ */
+export const canonicalize = (id: string): string => {
+  if (typeof id !== "string") return id;
+  let out = id.toLowerCase();
+  if (out.startsWith("urn:uuid:")) out = out.slice(9);
+  else if (out.startsWith("{") && out.endsWith("}")) out = out.slice(1, -1);
+  if (/^[0-9a-f]{32}$/.test(out)) {
+    const parts = [out.slice(0, 8), out.slice(8, 12), out.slice(12, 16)];
+    out = [...parts, out.slice(16, 20), out.slice(20)].join("-");
+  }
+  return out;
+};
+
+/**
+ * Spell a 128-bit value as a UUID.
+ */
+const toUUID = (value: bigint) => {
+  const h = value.toString(16).padStart(32, "0");
+  const parts = [h.slice(0, 8), h.slice(8, 12), h.slice(12, 16)];
+  return [...parts, h.slice(16, 20), h.slice(20)].join("-");
+};
+
+/**
+ * Write a value as `length` digits of `alphabet`, most significant
+ * first.
+ */
+const toDigits = (value: bigint, alphabet: string, length: number) => {
+  const base = BigInt(alphabet.length);
+  let rest = value;
+  let out = "";
+  for (let i = 0; i < length; i += 1) {
+    out = alphabet[Number(rest % base)] + out;
+    rest /= base;
+  }
+  return out;
+};
+
+/**
+ * Read the 128-bit value of an identifier in a compact format, or
+ * `undefined` if it is not one.
+ */
+const parse = (id: string, format: CompactFormat): bigint | undefined => {
+  if (typeof id !== "string" || id.length !== lengths[format]) return undefined;
+  const alphabet = alphabets[format];
+  const base = BigInt(alphabet.length);
+  const chars = [...(format === "ulid" ? id.toUpperCase() : id)];
+  const digits = chars.map((c) => alphabet.indexOf(c));
+  if (digits.some((d) => d < 0)) return undefined;
+  const value = digits.reduce((v, d) => v * base + BigInt(d), 0n);
+  const n = value >> padding[format];
+  if (n >= max || n << padding[format] !== value) return undefined;
+  return n;
+};
+
+const checkFormat = (format: CompactFormat) => {
+  if (!Object.keys(alphabets).includes(format)) {
+    throw new Error(`Unsupported format: ${format}.`);
+  }
+};
+
+/**
+ * Convert a UUID to a compact format. The result holds the same 128
+ * bits, so `decode` restores the UUID exactly.
+ * @param {string} uuid
+ * Any hyphenated 128-bit UUID, in either case.
+ * @param {CompactFormat} format
+ * @returns {string}
+ * @example
+ * encode("ba7faa56-24a2-4098-9850-2cdb3d8e5e85", "base62");
+ */
+export const encode = (uuid: string, format: CompactFormat): string => {
+  checkFormat(format);
+  if (typeof uuid !== "string" || !hexPattern.test(uuid)) {
+    throw new Error(`Invalid UUID: ${uuid}.`);
+  }
+  const value = BigInt(`0x${uuid.replace(/-/g, "")}`) << padding[format];
+  return toDigits(value, alphabets[format], lengths[format]);
+};
+
+/**
+ * Convert an identifier in a compact format back to a lowercase
+ * UUID.
+ * @param {string} id
+ * @param {CompactFormat} format
+ * @returns {string}
+ */
+export const decode = (id: string, format: CompactFormat): string => {
+  checkFormat(format);
+  const value = parse(id, format);
+  if (value === undefined) {
+    throw new Error(`Invalid ${format} identifier: ${id}.`);
+  }
+  return toUUID(value);
+};
+
+/**
+ * Create a monotonic ULID source. Within one millisecond the random
+ * part is incremented, and on overflow or if the clock moves
+ * backwards the previous timestamp is reused or advanced, so output
+ * stays sorted.
+ */
+const ulid = ({ random, clock }: FormatContext) => {
+  let lastTime = -1;
+  let lastRandom = 0n;
+  return () => {
+    const now = Math.floor(clock());
+    if (now > lastTime) {
+      lastTime = now;
+      const high = (BigInt(random()) << 48n) | (BigInt(random()) << 16n);
+      lastRandom = high | BigInt(random() & 0xffff);
+    } else {
+      lastRandom += 1n;
+      if (lastRandom >= 1n << 80n) {
+        lastTime += 1;
+        lastRandom = 0n;
+      }
+    }
+    const value = (BigInt(lastTime) << 80n) | lastRandom;
+    return toDigits(value, alphabets.ulid, lengths.ulid);
+  };
+};
+
+/**
+ * Create a NanoID source. Random values are drawn without modulo
+ * bias, so every character of the alphabet is equally likely.
+ */
+const nanoid = ({ random }: FormatContext, alphabet: string, size: number) => {
+  const range = 2 ** 32;
+  const limit = range - (range % alphabet.length);
+  return () => {
+    let out = "";
+    while (out.length < size) {
+      const value = random();
+      if (value < limit) out += alphabet[value % alphabet.length];
+    }
+    return out;
+  };
+};
+
+/**
+ * Configure a format.
+ * @param {FormatContext} context
+ * @param {FormatOption} [option]
+ * Defaults to `uuid`.
+ * @returns {Format}
+ */
+export const createFormat = (
+  context: FormatContext,
+  option: FormatOption = "uuid",
+): Format => {
+  const same = (id: string) => id;
+  if (option === "uuid") {
+    return Object.freeze({
+      name: option,
+      test: context.isUUID,
+      normalize: canonicalize,
+      fromUUID: same,
+    });
+  }
+  if (option === "ulid") {
+    return Object.freeze({
+      name: option,
+      test: (id: string) => parse(id, option) !== undefined,
+      normalize: (id: string) => id.toUpperCase(),
+      fromUUID: (uuid: string) => encode(uuid, option),
+      generate: ulid(context),
+    });
+  }
+  if (option === "base58" || option === "base62" || option === "base64url") {
+    return Object.freeze({
+      name: option,
+      test: (id: string) => {
+        const value = parse(id, option);
+        return value !== undefined && context.isUUID(toUUID(value));
+      },
+      normalize: same,
+      fromUUID: (uuid: string) => encode(uuid, option),
+    });
+  }
+  const settings = option === "nanoid" ? { type: option } : option;
+  if (settings?.type !== "nanoid") {
+    throw new Error(`Unsupported format: ${JSON.stringify(option)}.`);
+  }
+  const { alphabet = alphabets.base64url, size = 21 } = settings;
+  const valid =
+    typeof alphabet === "string" &&
+    alphabet.length >= 2 &&
+    new Set(alphabet).size === alphabet.length;
+  if (!valid) {
+    throw new Error("NanoID alphabets need at least two distinct characters.");
+  }
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid NanoID size: ${size}.`);
+  }
+  return Object.freeze({
+    name: settings.type,
+    test: (id: string) => {
+      if (typeof id !== "string" || id.length !== size) return false;
+      return [...id].every((c) => alphabet.includes(c));
+    },
+    normalize: same,
+    generate: nanoid(context, alphabet, size),
+  });
+};
@@ -0,0 +1,195 @@
+/**
+ * @file hash.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const utf8, sha1, md5`
+ * Minimal synchronous SHA-1 and MD5 digests used to derive
+ * RFC 9562 name-based (version 5 and version 3) identifiers.
+ * Both run unchanged in Node and the browser without any
+ * dependency. Neither should be used for anything security
+ * related; they exist only because the RFC requires them.
+ */
+
+/* eslint-disable no-bitwise */
+
+/**
+ * Encode a string as UTF-8 bytes. `TextEncoder` is not available in
+ * every environment this library runs in (e.g. older jsdom), so the
+ * encoding is done by hand. Lone surrogates become U+FFFD.
+ * @param {string} str - The string to encode.
+ * @returns {Uint8Array}
+ */
+export const utf8 = (str: string): Uint8Array => {
+  const out: number[] = [];
+  for (let i = 0; i < str.length; i += 1) {
+    let c = str.charCodeAt(i);
+    if (c >= 0xd800 && c <= 0xdbff) {
+      const next = str.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        c = 0x10000 + ((c - 0xd800) << 10) + (next - 0xdc00);
+        i += 1;
+      } else {
+        c = 0xfffd;
+      }
+    } else if (c >= 0xdc00 && c <= 0xdfff) {
+      c = 0xfffd;
+    }
+    if (c < 0x80) {
+      out.push(c);
+    } else if (c < 0x800) {
+      out.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+    } else if (c < 0x10000) {
+      out.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+    } else {
+      out.push(
+        0xf0 | (c >> 18),
+        0x80 | ((c >> 12) & 0x3f),
+        0x80 | ((c >> 6) & 0x3f),
+        0x80 | (c & 0x3f),
+      );
+    }
+  }
+  return new Uint8Array(out);
+};
+
+/**
+ * Pad a message as required by the Merkle–Damgård construction
+ * used by both SHA-1 and MD5. The bit length is appended as a
+ * 64-bit integer, big-endian for SHA-1 and little-endian for MD5.
+ * @param {Uint8Array} bytes - The message.
+ * @param {boolean} littleEndian - Byte order of the length field.
+ * @returns {DataView} View over the padded message.
+ */
+const pad = (bytes: Uint8Array, littleEndian: boolean): DataView => {
+  const len = (((bytes.length + 8) >> 6) + 1) << 6;
+  const padded = new Uint8Array(len);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bits = bytes.length * 8;
+  const hi = Math.floor(bits / 0x100000000);
+  const lo = bits >>> 0;
+  if (littleEndian) {
+    view.setUint32(len - 8, lo, true);
+    view.setUint32(len - 4, hi, true);
+  } else {
+    view.setUint32(len - 8, hi);
+    view.setUint32(len - 4, lo);
+  }
+  return view;
+};
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+/**
+ * Compute the SHA-1 digest of a message.
+ * @param {Uint8Array} bytes - The message.
+ * @returns {Uint8Array} 20 byte digest.
+ */
+export const sha1 = (bytes: Uint8Array): Uint8Array => {
+  const view = pad(bytes, false);
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Uint32Array(80);
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i += 1) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i += 1) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i += 1) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const t = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30) >>> 0;
+      b = a;
+      a = t;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+    h[4] = (h[4] + e) >>> 0;
+  }
+  const out = new DataView(new ArrayBuffer(20));
+  h.forEach((v, i) => out.setUint32(i * 4, v));
+  return new Uint8Array(out.buffer);
+};
+
+/**
+ * Per-round shift amounts for MD5.
+ */
+const md5Shifts = [
+  [7, 12, 17, 22],
+  [5, 9, 14, 20],
+  [4, 11, 16, 23],
+  [6, 10, 15, 21],
+].flatMap((row) => [...row, ...row, ...row, ...row]);
+
+/**
+ * MD5 sine-derived constants.
+ */
+const md5Constants = Array(64)
+  .fill(0)
+  .map((_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+/**
+ * Compute the MD5 digest of a message.
+ * @param {Uint8Array} bytes - The message.
+ * @returns {Uint8Array} 16 byte digest.
+ */
+export const md5 = (bytes: Uint8Array): Uint8Array => {
+  const view = pad(bytes, true);
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const m = new Uint32Array(16);
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i += 1) m[i] = view.getUint32(offset + i * 4, true);
+    let [a, b, c, d] = h;
+    for (let i = 0; i < 64; i += 1) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const t = d;
+      d = c;
+      c = b;
+      b =
+        (b + rotl((a + f + md5Constants[i] + m[g]) >>> 0, md5Shifts[i])) >>> 0;
+      a = t;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+  }
+  const out = new DataView(new ArrayBuffer(16));
+  h.forEach((v, i) => out.setUint32(i * 4, v, true));
+  return new Uint8Array(out.buffer);
+};
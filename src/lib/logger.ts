@@ -0,0 +1,118 @@
+/**
+ * @file logger.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const createLogger, consoleSink, silentSink`
+ * Structured, leveled diagnostics for `uid()` and `UIDManager()`.
+ * Every message is a `LogEvent` passed to a sink, so output can be
+ * muted, sent to the console, or routed to an application logger.
+ */
+
+/**
+ * Severity of a `LogEvent`, lowest first.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A structured diagnostic message.
+ */
+export type LogEvent = {
+  level: LogLevel;
+
+  /**
+   * Human readable description.
+   */
+  message: string;
+
+  /**
+   * Name of the operation that produced the event, e.g. `set`.
+   */
+  operation: string;
+
+  /**
+   * The key involved, if any.
+   */
+  key?: unknown;
+
+  /**
+   * The UID involved, if any.
+   */
+  uid?: string;
+
+  /**
+   * The error that caused the event, if any.
+   */
+  error?: unknown;
+};
+
+/**
+ * Receives every `LogEvent` at or above the configured level.
+ */
+export type LogSink = (event: LogEvent) => void;
+
+/**
+ * Either a custom `LogSink`, `"console"`, or `"silent"`.
+ */
+export type LoggerOption = LogSink | "console" | "silent";
+
+const levels: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Write events to the console. Errors are collapsed into a group
+ * labeled with the operation and message, followed by the error.
+ * @param {LogEvent} event
+ */
+export const consoleSink: LogSink = (event) => {
+  const { level, message, operation } = event;
+  const label = `${operation} : ${message}`;
+  if (level === "error") {
+    console.groupCollapsed(label);
+    console.log(event.error);
+    console.groupEnd();
+    return;
+  }
+  const { key, uid } = event;
+  const fields = { key, uid };
+  const hasFields = key !== undefined || uid !== undefined;
+  console[level](label, ...(hasFields ? [fields] : []));
+};
+
+/**
+ * Discard every event.
+ */
+export const silentSink: LogSink = () => {};
+
+/**
+ * Create a logging function that forwards events at or above `level`
+ * to the sink described by `logger`.
+ * @param {LoggerOption} [logger]
+ * Sink to write to. Defaults to `"console"`.
+ * @param {LogLevel} [level]
+ * Minimum level to forward. Defaults to `"info"`; use `"debug"` to
+ * trace every mutation.
+ * Exceptions thrown by the sink are swallowed so a broken sink cannot
+ * interrupt the operation being logged.
+ * @returns {LogSink}
+ */
+export const createLogger = (
+  logger: LoggerOption = "console",
+  level: LogLevel = "info",
+): LogSink => {
+  if (!levels.includes(level)) throw new Error(`Invalid log level: ${level}.`);
+  if (logger === "silent") return silentSink;
+  const sink = logger === "console" ? consoleSink : logger;
+  if (typeof sink !== "function") {
+    throw new Error(`Invalid logger: ${String(logger)}.`);
+  }
+  const min = levels.indexOf(level);
+  return (event) => {
+    if (levels.indexOf(event.level) < min) return;
+    try {
+      sink(event);
+    } catch {
+      // Logging must never change the outcome of the operation.
+    }
+  };
+};
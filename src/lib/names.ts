@@ -0,0 +1,130 @@
+/**
+ * @file names.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const NAMESPACES, serializeKey, deriveUid`
+ * Derive deterministic RFC 9562 name-based identifiers (version 5
+ * using SHA-1, or version 3 using MD5) from a namespace UID and a
+ * canonical serialization of a key. The same namespace and key
+ * always produce the same identifier on every machine and in every
+ * session without sharing any state.
+ */
+
+/* eslint-disable no-bitwise */
+
+import { md5, sha1, utf8 } from "./hash";
+
+/**
+ * Name-based UID versions.
+ * - `3` : RFC 9562 version 3, MD5.
+ * - `5` : RFC 9562 version 5, SHA-1.
+ */
+export type NameVersion = 3 | 5;
+
+/**
+ * Predefined namespace UIDs from RFC 9562 section 6.6.
+ */
+export const NAMESPACES = Object.freeze({
+  DNS: "6ba7b810-9dad-11d1-80b4-00c04fd430c8",
+  URL: "6ba7b811-9dad-11d1-80b4-00c04fd430c8",
+  OID: "6ba7b812-9dad-11d1-80b4-00c04fd430c8",
+  X500: "6ba7b814-9dad-11d1-80b4-00c04fd430c8",
+});
+
+const namespaceRe =
+  /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i;
+
+/**
+ * Serialize a value as JSON with object keys sorted, so that
+ * structurally equal objects always serialize identically.
+ * @param {unknown} value - The value to serialize.
+ * @returns {string}
+ */
+const canonicalJSON = (value: unknown): string => {
+  if (typeof value === "bigint") return JSON.stringify(`${value}n`);
+  if (typeof value === "symbol" || typeof value === "function") {
+    throw new Error(`Keys of type ${typeof value} can not be serialized.`);
+  }
+  if (value === undefined) return "null";
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJSON(v)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const object = value as Record<string, unknown>;
+    const { toJSON } = object;
+    if (typeof toJSON === "function") {
+      return canonicalJSON(toJSON.call(object));
+    }
+    const props = Object.keys(object)
+      .filter((k) => object[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJSON(object[k])}`);
+    return `{${props.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Produce the canonical name for a key. Strings are used as-is so
+ * that URLs, hostnames, and paths derive the same identifiers as
+ * any other RFC 9562 implementation. Every other value is encoded
+ * as JSON with sorted object keys. Note that the string `"1"` and
+ * the number `1` therefore derive the same identifier.
+ * @param {unknown} key
+ * Any key except `undefined`, `null`, `NaN`, a `Symbol`, or a function.
+ * @returns {string}
+ */
+export const serializeKey = (key: unknown): string => {
+  if (key === undefined) throw new Error("Keys must not be undefined.");
+  if (key === null) throw new Error("Keys must not be null.");
+  if (Number.isNaN(key)) throw new Error("Keys must not be NaN.");
+  if (typeof key === "string") return key;
+  return canonicalJSON(key);
+};
+
+/**
+ * Derive a name-based identifier from a namespace and a key.
+ * @param {string} namespace
+ * Namespace UID, e.g. one of `NAMESPACES`.
+ * @param {unknown} key
+ * The key, serialized with `serializeKey`.
+ * @param {NameVersion} [version]
+ * `5` (SHA-1, default) or `3` (MD5).
+ * @returns {string}
+ * RFC 9562 version 5 or version 3 unique identifier.
+ * @example
+ * deriveUid(NAMESPACES.DNS, "www.example.com");
+ * // "2ed6657d-e927-568b-95e1-2665a8aea6a2"
+ */
+export const deriveUid = (
+  namespace: string,
+  key: unknown,
+  version: NameVersion = 5,
+): string => {
+  if (!namespaceRe.test(namespace)) {
+    throw new Error(`Invalid namespace: ${namespace}.`);
+  }
+  if (version !== 3 && version !== 5) {
+    throw new Error(`Unsupported name-based version: ${version}.`);
+  }
+  const ns = namespace.replace(/-/g, "");
+  const name = utf8(serializeKey(key));
+  const bytes = new Uint8Array(16 + name.length);
+  for (let i = 0; i < 16; i += 1) {
+    bytes[i] = parseInt(ns.slice(i * 2, i * 2 + 2), 16);
+  }
+  bytes.set(name, 16);
+  const hash = (version === 5 ? sha1 : md5)(bytes).slice(0, 16);
+  hash[6] = (hash[6] & 0x0f) | (version << 4);
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = Array.from(hash, (b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+};
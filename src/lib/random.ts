@@ -0,0 +1,262 @@
+/**
+ * @file random.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const detectRandomSource, seededRandom, toRandomSource`
+ * Locate a cryptographically secure pseudo-random number generator
+ * in the current environment. Browsers, web workers, Deno, and
+ * Node 19+ expose `crypto.getRandomValues` globally. Older Node
+ * versions are covered by `node:crypto`. `Math.random` is only used
+ * as a last resort and is reported as insecure. A seeded PRNG is
+ * also provided to produce reproducible UIDs for test fixtures.
+ */
+
+/* eslint-disable no-bitwise */
+
+/**
+ * Names of the random sources that can be detected.
+ * - `web-crypto` : `crypto.getRandomValues` on `globalThis`, `self`
+ * (workers), or `window`.
+ * - `node-webcrypto` : `webcrypto.getRandomValues` from `node:crypto`.
+ * - `node-crypto` : `randomFillSync` from `node:crypto`.
+ * - `math-random` : `Math.random`, not cryptographically secure.
+ * - `seeded` : `seededRandom`, reproducible and not secure.
+ * - `custom` : a user supplied fill function.
+ */
+export type RandomSourceName =
+  | "web-crypto"
+  | "node-webcrypto"
+  | "node-crypto"
+  | "math-random"
+  | "seeded"
+  | "custom";
+
+/**
+ * A source of random 32-bit unsigned integers.
+ */
+export type RandomSource = {
+  /**
+   * Identifies where the values come from.
+   */
+  name: RandomSourceName;
+
+  /**
+   * `true` if the source is a CSPRNG.
+   */
+  secure: boolean;
+
+  /**
+   * Fill the given array with random values and return it.
+   */
+  fill: (values: Uint32Array) => Uint32Array;
+};
+
+/**
+ * A reproducible random source created by `seededRandom`.
+ */
+export type SeededRandomSource = RandomSource & {
+  /**
+   * The seed the source was created with.
+   */
+  seed: number;
+
+  /**
+   * Retrieve a copy of the four 32-bit words of internal state.
+   */
+  getState: () => [number, number, number, number];
+
+  /**
+   * Replace the internal state, e.g. with a value previously
+   * returned by `getState`, to replay a sequence from that point.
+   */
+  setState: (state: [number, number, number, number]) => void;
+};
+
+/**
+ * Either a complete `RandomSource` or a function that fills a
+ * `Uint32Array` with random values.
+ */
+export type RandomOption =
+  RandomSource | ((values: Uint32Array) => Uint32Array | void);
+
+type CryptoLike = { getRandomValues?: (values: Uint32Array) => Uint32Array };
+
+/**
+ * The global scope properties searched for `crypto`.
+ */
+type Scope = {
+  crypto?: CryptoLike;
+  self?: { crypto?: CryptoLike };
+  window?: { crypto?: CryptoLike };
+};
+
+/**
+ * The parts of `node:crypto` used as a fallback.
+ */
+type NodeCrypto = {
+  webcrypto?: CryptoLike;
+  randomFillSync?: (values: Uint32Array) => Uint32Array;
+};
+
+/**
+ * Load a Node built-in without a static `require` so browser bundlers
+ * do not try to resolve `node:crypto`. Returns `undefined` outside of
+ * CommonJS Node.
+ */
+export const nodeRequire = (id: string): unknown => {
+  if (typeof module === "undefined" || typeof module.require !== "function") {
+    return undefined;
+  }
+  return module.require(id);
+};
+
+const fromCrypto = (
+  name: RandomSourceName,
+  crypto: CryptoLike | undefined,
+): RandomSource | undefined => {
+  if (typeof crypto?.getRandomValues !== "function") return undefined;
+  const getRandomValues = crypto.getRandomValues.bind(crypto);
+  return { name, secure: true, fill: (values) => getRandomValues(values) };
+};
+
+const mathRandom: RandomSource = {
+  name: "math-random",
+  secure: false,
+  fill: (values) => {
+    for (let i = 0; i < values.length; i += 1) {
+      values[i] = (Math.random() * 0x100000000) >>> 0;
+    }
+    return values;
+  },
+};
+
+/**
+ * Find the best available random source. Each candidate is probed
+ * in order and any error while probing moves on to the next one.
+ * @param {Scope} [scope]
+ * Global scope to search. Defaults to `globalThis`.
+ * @param {(id: string) => unknown} [load]
+ * Module loader used to reach `node:crypto`. Defaults to `require`.
+ * @returns {RandomSource}
+ */
+export const detectRandomSource = (
+  scope: Scope = globalThis,
+  load: (id: string) => unknown = nodeRequire,
+): RandomSource => {
+  const nodeCrypto = () => load("node:crypto") as NodeCrypto | undefined;
+  const candidates: (() => RandomSource | undefined)[] = [
+    () => fromCrypto("web-crypto", scope.crypto),
+    () => fromCrypto("web-crypto", scope.self?.crypto),
+    () => fromCrypto("web-crypto", scope.window?.crypto),
+    () => fromCrypto("node-webcrypto", nodeCrypto()?.webcrypto),
+    () => {
+      const randomFillSync = nodeCrypto()?.randomFillSync;
+      if (typeof randomFillSync !== "function") return undefined;
+      return {
+        name: "node-crypto",
+        secure: true,
+        fill: (values: Uint32Array) => randomFillSync(values),
+      };
+    },
+  ];
+  for (let i = 0; i < candidates.length; i += 1) {
+    try {
+      const source = candidates[i]();
+      if (source) return source;
+    } catch (e) {
+      // Try the next candidate.
+    }
+  }
+  return mathRandom;
+};
+
+/**
+ * Normalize a `RandomOption` to a `RandomSource`. Plain functions may
+ * fill the given array or return a new one. They are named `custom`
+ * and are trusted to be secure; pass a `RandomSource`
+ * with `secure: false` to opt out of `strict` mode for them.
+ * @param {RandomOption} random
+ * @returns {RandomSource}
+ */
+export const toRandomSource = (random: RandomOption): RandomSource => {
+  if (typeof random !== "function") return random;
+  return {
+    name: "custom",
+    secure: true,
+    fill: (values) => {
+      const out = random(values);
+      if (out && out !== values) values.set(out);
+      return values;
+    },
+  };
+};
+
+/**
+ * Expand a 32-bit seed into a stream of well mixed words (splitmix32).
+ * Used to initialize the xoshiro128** state.
+ * @param {number} seed
+ * @returns {() => number}
+ */
+const splitmix32 = (seed: number): (() => number) => {
+  let x = seed >>> 0;
+  return () => {
+    x = (x + 0x9e3779b9) >>> 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+};
+
+/**
+ * Create a seeded, reproducible random source using xoshiro128**.
+ * The same seed always produces the same sequence, so generators
+ * using it produce the same sequence of valid UIDs. Not suitable
+ * for anything but tests and fixtures.
+ * @param {number} [seed]
+ * 32-bit unsigned integer seed. Defaults to a random seed, which
+ * can be read back from `seed` to replay the run.
+ * @returns {SeededRandomSource}
+ * @example
+ * const a = uid([], { random: seededRandom(42) });
+ * const b = uid([], { random: seededRandom(42) });
+ * a.generate() === b.generate(); // true
+ */
+export const seededRandom = (seed?: number): SeededRandomSource => {
+  const $seed =
+    seed === undefined
+      ? detectRandomSource().fill(new Uint32Array(1))[0]
+      : seed >>> 0;
+  const next = splitmix32($seed);
+  const s = new Uint32Array([next(), next(), next(), next()]);
+  const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+  const random = () => {
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  };
+  return {
+    name: "seeded",
+    secure: false,
+    seed: $seed,
+    fill: (values) => {
+      for (let i = 0; i < values.length; i += 1) values[i] = random();
+      return values;
+    },
+    getState: () => [s[0], s[1], s[2], s[3]],
+    setState: (state) => {
+      if (state.length !== 4 || state.every((v) => !v)) {
+        throw new Error("State must be four words and not all zero.");
+      }
+      s.set(state);
+    },
+  };
+};
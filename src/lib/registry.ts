@@ -0,0 +1,153 @@
+/**
+ * @file registry.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const createRegistry, heldElsewhere`
+ * Share uniqueness between several `UIDManager` instances. Managers
+ * attached to a registry, by the `registry` option or by `attach`,
+ * never generate, `set`, `restore`, or import a UID that another
+ * attached manager holds, and the registry can find which manager
+ * holds a given UID.
+ */
+
+import { DuplicateUIDError } from "./errors";
+
+/**
+ * What a registry needs from a manager. Every `UIDManager` is one.
+ */
+export type RegistryMember = {
+  whichNamespace: (uid: string) => string | undefined;
+  namespaces: () => string[];
+  namespace: (name: string) => { uids: () => string[] };
+};
+
+/**
+ * The `ownerOf` of every registry each manager is attached to, kept
+ * by `attach` and `detach`.
+ */
+const memberships = new WeakMap<
+  RegistryMember,
+  Set<(uid: string) => RegistryMember | undefined>
+>();
+
+/**
+ * Check if a manager other than `member`, attached to a registry
+ * `member` is attached to, holds `uid`.
+ * @param {RegistryMember} member
+ * @param {string} uid
+ * @returns {boolean}
+ */
+export const heldElsewhere = (member: RegistryMember, uid: string) => {
+  const owners = [...(memberships.get(member) ?? [])];
+  return owners.some((ownerOf) => {
+    const owner = ownerOf(uid);
+    return owner !== undefined && owner !== member;
+  });
+};
+
+/**
+ * Create a registry that managers can be attached to, e.g. one per
+ * app shared by separate feature modules.
+ * @template M
+ * Type of the attached managers, as returned by `ownerOf`.
+ * @returns
+ * @example
+ * const registry = createRegistry<UIDManagerInterface>();
+ * const users = UIDManager({ registry });
+ * const orders = UIDManager({ registry });
+ * registry.ownerOf(users.generateUIDFor(user)); // users
+ */
+export const createRegistry = <M extends RegistryMember = RegistryMember>() => {
+  const members: M[] = [];
+
+  /**
+   * Retrieve the attached manager that holds a UID.
+   */
+  const ownerOf = (uid: string): M | undefined => {
+    const holds = (member: M) => member.whichNamespace(uid) !== undefined;
+    return members.find(holds);
+  };
+
+  return Object.freeze({
+    /**
+     * Attach a manager, so it and every other attached manager check
+     * UIDs against each other. Managers created with the `registry`
+     * option are attached automatically.
+     * @param {M} manager
+     * @returns {boolean}
+     * Returns `true` on success or `false` if already attached.
+     * Throws `DuplicateUIDError` if the manager holds a UID that
+     * another attached manager holds.
+     */
+    attach: (manager: M): boolean => {
+      if (members.includes(manager)) return false;
+      manager.namespaces().forEach((name) => {
+        manager
+          .namespace(name)
+          .uids()
+          .forEach((uid) => {
+            if (ownerOf(uid) === undefined) return;
+            const msg = `UID ${uid} is held by another manager.`;
+            throw new DuplicateUIDError(msg, { uid });
+          });
+      });
+      members.push(manager);
+      const registries = memberships.get(manager) ?? new Set();
+      memberships.set(manager, registries.add(ownerOf));
+      return true;
+    },
+
+    /**
+     * Detach a manager, releasing its UIDs to the other managers. The
+     * manager keeps its associations but no longer checks UIDs
+     * against the registry.
+     * @param {M} manager
+     * @returns {boolean}
+     * Returns `true` on success or `false` if not attached.
+     */
+    detach: (manager: M): boolean => {
+      const index = members.indexOf(manager);
+      if (index < 0) return false;
+      members.splice(index, 1);
+      memberships.get(manager)?.delete(ownerOf);
+      return true;
+    },
+
+    /**
+     * Retrieve the attached manager that holds a UID, in any of its
+     * namespaces.
+     * @param {string} uid
+     * @returns {M|undefined}
+     * Returns the manager or `undefined` if none holds the UID.
+     */
+    ownerOf,
+
+    /**
+     * Check if any attached manager holds a UID.
+     * @param {string} uid
+     * @returns {boolean}
+     */
+    has: (uid: string): boolean => ownerOf(uid) !== undefined,
+
+    /**
+     * Retrieve a new array of the attached managers, in the order
+     * they were attached.
+     * @returns {M[]}
+     */
+    managers: (): M[] => [...members],
+  });
+};
+
+export type UIDRegistry<M extends RegistryMember = RegistryMember> = ReturnType<
+  typeof createRegistry<M>
+>;
+
+/**
+ * A registry of any type of manager, as accepted by the `registry`
+ * option.
+ */
+export type RegistryOption = {
+  attach(manager: RegistryMember): boolean;
+};
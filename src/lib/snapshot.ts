@@ -0,0 +1,305 @@
+/**
+ * @file snapshot.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const SNAPSHOT_VERSION, jsonKeyCodec, byId, ...`
+ * A versioned, JSON-safe schema for persisting a `UIDManager`,
+ * including its entries, the generator history, and the settings
+ * needed to create a matching manager. Keys are converted to and
+ * from JSON values by a `KeyCodec`, and snapshots written by older
+ * versions are upgraded by a chain of migrations.
+ */
+
+import type { GeneratorHistory, RetentionPolicy, UIDVersion } from "./uid";
+import type { NameVersion } from "./names";
+import type { FormatOption } from "./formats";
+import { InvalidSnapshotError } from "./errors";
+
+/**
+ * Value of `format` in every snapshot.
+ */
+export const SNAPSHOT_FORMAT = "uidmanager-snapshot";
+
+/**
+ * The snapshot schema version written by `exportSnapshot`.
+ */
+export const SNAPSHOT_VERSION = 4;
+
+/**
+ * A snapshot of a `UIDManager`. Every field is JSON-safe, so a
+ * snapshot survives `JSON.stringify` and `JSON.parse` unchanged.
+ * @example
+ * {
+ *   "format": "uidmanager-snapshot",
+ *   "version": 4,
+ *   "uidVersion": 4,
+ *   "settings": { "retention": { "type": "all" } },
+ *   "entries": [["user-1", "ba7faa56-24a2-4098-9850-2cdb3d8e5e85"]],
+ *   "namespaces": {},
+ *   "links": [],
+ *   "expires": [],
+ *   "history": {
+ *     "uids": [["ba7faa56-24a2-4098-9850-2cdb3d8e5e85", 1700000000000]],
+ *     "retired": []
+ *   }
+ * }
+ */
+export type Snapshot = {
+  /**
+   * Always `SNAPSHOT_FORMAT`.
+   */
+  format: typeof SNAPSHOT_FORMAT;
+
+  /**
+   * Schema version, `SNAPSHOT_VERSION` when written.
+   */
+  version: number;
+
+  /**
+   * Version of the UIDs the manager generates.
+   */
+  uidVersion: UIDVersion;
+
+  /**
+   * Settings of the manager that wrote the snapshot, suitable for
+   * passing to `UIDManager()` along with `version: uidVersion`.
+   */
+  settings: {
+    retention: RetentionPolicy;
+    format?: FormatOption;
+    namespace?: string;
+    nameVersion?: NameVersion;
+  };
+
+  /**
+   * `[key, uid]` pairs, with each key encoded by a `KeyCodec`.
+   */
+  entries: [unknown, string][];
+
+  /**
+   * Entries of every other namespace, keyed by namespace name. Empty
+   * in snapshots of a single namespace.
+   */
+  namespaces: Record<string, [unknown, string][]>;
+
+  /**
+   * Aliases and superseded UIDs of keys in any namespace.
+   * `supersededAt` is only set for superseded UIDs.
+   */
+  links: {
+    namespace: string;
+    key: unknown;
+    uid: string;
+    supersededAt?: number;
+  }[];
+
+  /**
+   * Expiry of UIDs associated with a TTL in any namespace: the Unix
+   * time in milliseconds at which each expires, and its TTL.
+   */
+  expires: {
+    uid: string;
+    at: number;
+    ttl: number;
+  }[];
+
+  /**
+   * The generator history, see `GeneratorHistory`.
+   */
+  history: GeneratorHistory;
+};
+
+/**
+ * Converts keys to JSON-safe values and back.
+ */
+export type KeyCodec<K = unknown> = {
+  /**
+   * Encode a key as a JSON-safe value.
+   */
+  toKey(key: K): unknown;
+
+  /**
+   * Decode a value produced by `toKey` back to a key.
+   */
+  fromKey(value: unknown): K;
+};
+
+/**
+ * Upgrade a snapshot from the version it is keyed by to the next
+ * version. Version `0` is a plain array of `[key, uid]` entries as
+ * returned by `entries()`.
+ */
+export type Migrations = Record<number, (snapshot: unknown) => unknown>;
+
+/**
+ * The default `KeyCodec`. Keys are stored as they are, so they must
+ * be JSON-safe; object keys are restored as equal, new objects.
+ * Symbols, functions, and bigints are rejected.
+ */
+export const jsonKeyCodec: KeyCodec = Object.freeze({
+  toKey: (key: unknown) => {
+    const type = typeof key;
+    if (type === "symbol" || type === "function" || type === "bigint") {
+      const msg = `Keys of type ${type} can not be serialized. Use a KeyCodec.`;
+      throw new InvalidSnapshotError(msg, { key });
+    }
+    return key;
+  },
+  fromKey: (value: unknown) => value,
+});
+
+/**
+ * Create a `KeyCodec` that stores each key by an id property and
+ * looks the key up by that id on import.
+ * @param {keyof K} property
+ * Name of the id property, e.g. `id`.
+ * @param {(id: unknown) => K | undefined} lookup
+ * Find the key for an id. Returning `undefined` fails the import.
+ * @returns {KeyCodec<K>}
+ * @example
+ * const codec = byId<User>("id", (id) => users.find((u) => u.id === id));
+ * const snapshot = manager.exportSnapshot({ codec });
+ */
+export const byId = <K>(
+  property: keyof K,
+  lookup: (id: unknown) => K | undefined,
+): KeyCodec<K> => {
+  const codec: KeyCodec<K> = {
+    toKey: (key: K) => key[property],
+    fromKey: (id: unknown) => {
+      const key = lookup(id);
+      if (key === undefined) {
+        const msg = `No key found for ${String(property)} ${String(id)}.`;
+        throw new InvalidSnapshotError(msg, { key: id });
+      }
+      return key;
+    },
+  };
+  return Object.freeze(codec);
+};
+
+/**
+ * Built-in migrations, applied unless replaced by the caller.
+ */
+const builtInMigrations: Migrations = {
+  0: (snapshot) => {
+    const entries = snapshot as [unknown, string][];
+    const now = Date.now();
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: 1,
+      uidVersion: 4,
+      settings: { retention: { type: "all" } },
+      entries,
+      history: {
+        uids: entries.map(([, uid]) => [uid, now]),
+        retired: [],
+      },
+    };
+  },
+  1: (snapshot) => ({ ...(snapshot as object), version: 2, namespaces: {} }),
+  2: (snapshot) => ({ ...(snapshot as object), version: 3, links: [] }),
+  3: (snapshot) => ({ ...(snapshot as object), version: 4, expires: [] }),
+};
+
+/**
+ * Check if a value is a non-null object whose fields can be read.
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object") return false;
+  return value !== null;
+};
+
+const isPairs = (value: unknown) => {
+  if (!Array.isArray(value)) return false;
+  return value.every((p) => Array.isArray(p) && p.length === 2);
+};
+
+const isLink = (value: unknown) => {
+  if (!isRecord(value) || typeof value.namespace !== "string") return false;
+  return typeof value.uid === "string" && "key" in value;
+};
+
+const isExpiry = (value: unknown) => {
+  if (!isRecord(value) || typeof value.uid !== "string") return false;
+  const { at, ttl } = value;
+  if (typeof at !== "number" || !Number.isFinite(at)) return false;
+  return typeof ttl === "number" && Number.isFinite(ttl) && ttl > 0;
+};
+
+/**
+ * Check the shape of a current version snapshot.
+ * @param {unknown} snapshot
+ * @returns {boolean}
+ */
+const isSnapshot = (snapshot: unknown): snapshot is Snapshot => {
+  if (!isRecord(snapshot) || snapshot.format !== SNAPSHOT_FORMAT) return false;
+  const { history, settings, namespaces } = snapshot;
+  const { uidVersion, links, expires } = snapshot;
+  return (
+    (uidVersion === 4 || uidVersion === 7) &&
+    isRecord(settings) &&
+    isPairs(snapshot.entries) &&
+    isRecord(namespaces) &&
+    !Array.isArray(namespaces) &&
+    Object.values(namespaces).every(isPairs) &&
+    Array.isArray(links) &&
+    links.every(isLink) &&
+    Array.isArray(expires) &&
+    expires.every(isExpiry) &&
+    isRecord(history) &&
+    isPairs(history.uids) &&
+    Array.isArray(history.retired)
+  );
+};
+
+/**
+ * Upgrade a parsed snapshot to `SNAPSHOT_VERSION` and check its shape.
+ * @param {unknown} snapshot
+ * A snapshot of any version, or a plain array of entries (version `0`).
+ * @param {Migrations} [migrations]
+ * Additional or replacement migrations, keyed by the version each
+ * one upgrades from.
+ * @returns {Snapshot}
+ */
+export const migrateSnapshot = (
+  snapshot: unknown,
+  migrations: Migrations = {},
+): Snapshot => {
+  const steps = { ...builtInMigrations, ...migrations };
+  const versionOf = (s: unknown): number => {
+    if (Array.isArray(s)) return 0;
+    return isRecord(s) && typeof s.version === "number" ? s.version : NaN;
+  };
+  let current = snapshot;
+  let version = versionOf(current);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new InvalidSnapshotError("Snapshot has no valid version.");
+  }
+  if (version > SNAPSHOT_VERSION) {
+    const msg = `Snapshot version ${version} is newer than ${SNAPSHOT_VERSION}.`;
+    throw new InvalidSnapshotError(msg);
+  }
+  while (version < SNAPSHOT_VERSION) {
+    const step = steps[version];
+    if (!step) {
+      const msg = `No migration from snapshot version ${version}.`;
+      throw new InvalidSnapshotError(msg);
+    }
+    current = step(current);
+    const next = versionOf(current);
+    if (!(next > version)) {
+      const msg = `Migration from snapshot version ${version} did not advance.`;
+      throw new InvalidSnapshotError(msg);
+    }
+    version = next;
+  }
+  if (!isSnapshot(current)) {
+    throw new InvalidSnapshotError("Snapshot is malformed.");
+  }
+  return current;
+};
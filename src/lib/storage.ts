@@ -0,0 +1,396 @@
+/**
+ * @file storage.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const memoryAdapter, localStorageAdapter, ...`
+ * Persist `UIDManager` snapshots through a `StorageAdapter`. Every
+ * write is sealed with a SHA-1 checksum and the previous good write
+ * is kept as a backup, so a corrupt or truncated snapshot falls back
+ * to the last one known to be good. Adapters are provided for
+ * `localStorage`, IndexedDB, a Node JSON file, and memory.
+ */
+
+import { sha1, utf8 } from "./hash";
+import type { LogSink } from "./logger";
+import { nodeRequire } from "./random";
+import type { KeyCodec } from "./snapshot";
+
+/**
+ * Where a sealed snapshot is stored. `current` holds the latest
+ * write and `backup` the one before it.
+ */
+export type StorageSlot = "current" | "backup";
+
+/**
+ * Reads and writes sealed snapshots. Methods may be synchronous or
+ * return promises; only `UIDManagerAsync` can hydrate from adapters
+ * that read asynchronously.
+ */
+export type StorageAdapter = {
+  /**
+   * Identifies the adapter in diagnostics.
+   */
+  name: string;
+
+  /**
+   * Retrieve the data stored in a slot, or `undefined` if empty.
+   */
+  read: (slot: StorageSlot) => string | undefined | Promise<string | undefined>;
+
+  /**
+   * Replace the data stored in a slot.
+   */
+  write: (slot: StorageSlot, data: string) => void | Promise<void>;
+};
+
+/**
+ * When changes are written back to the adapter.
+ * - `debounce` : once changes stop for `delay` milliseconds (default).
+ * - `write-through` : after every change, in order.
+ * - `off` : only when `flush` is called.
+ */
+export type AutosaveMode = "debounce" | "write-through" | "off";
+
+/**
+ * The `storage` option of `UIDManager()`.
+ */
+export type StorageOptions = {
+  adapter: StorageAdapter;
+
+  /**
+   * See `AutosaveMode`. Defaults to `debounce`.
+   */
+  autosave?: AutosaveMode;
+
+  /**
+   * Debounce delay in milliseconds. Defaults to `100`.
+   */
+  delay?: number;
+
+  /**
+   * Converts keys to JSON-safe values and back. Defaults to
+   * `jsonKeyCodec`.
+   */
+  codec?: KeyCodec;
+
+  /**
+   * Codecs for the keys of individual namespaces, keyed by name.
+   * Namespaces without one use `codec`.
+   */
+  codecs?: Record<string, KeyCodec>;
+};
+
+/**
+ * Store snapshots in memory, e.g. for tests.
+ * @param {Partial<Record<StorageSlot, string>>} [initial]
+ * Data to start with.
+ * @returns {StorageAdapter}
+ */
+export const memoryAdapter = (
+  initial: Partial<Record<StorageSlot, string>> = {},
+): StorageAdapter => {
+  const data = new Map(Object.entries(initial));
+  return Object.freeze({
+    name: "memory",
+    read: (slot: StorageSlot) => data.get(slot),
+    write: (slot: StorageSlot, value: string) => {
+      data.set(slot, value);
+    },
+  });
+};
+
+/**
+ * Store snapshots in `localStorage` under `key` and `key:backup`.
+ * @param {string} [key]
+ * Defaults to `uidmanager`.
+ * @param {Pick<Storage, "getItem" | "setItem">} [storage]
+ * Defaults to `globalThis.localStorage`.
+ * @returns {StorageAdapter}
+ */
+export const localStorageAdapter = (
+  key = "uidmanager",
+  storage: Pick<Storage, "getItem" | "setItem"> = globalThis.localStorage,
+): StorageAdapter => {
+  if (!storage) throw new Error("localStorage is not available.");
+  const items = { current: key, backup: `${key}:backup` };
+  return Object.freeze({
+    name: "localStorage",
+    read: (slot: StorageSlot) => storage.getItem(items[slot]) ?? undefined,
+    write: (slot: StorageSlot, data: string) => {
+      storage.setItem(items[slot], data);
+    },
+  });
+};
+
+/**
+ * The parts of `node:fs` used by `fileAdapter`.
+ */
+type FileSystem = Pick<
+  typeof import("node:fs"),
+  "readFileSync" | "writeFileSync" | "renameSync"
+>;
+
+/**
+ * Store snapshots in a JSON file, and the backup next to it with a
+ * `.bak` extension. Writes go to a temporary file that is renamed
+ * over the target, so a crash mid-write never truncates the file.
+ * @param {string} path
+ * Path of the JSON file.
+ * @param {FileSystem} [fs]
+ * The `node:fs` module. Defaults to `require("node:fs")`.
+ * @returns {StorageAdapter}
+ */
+export const fileAdapter = (
+  path: string,
+  fs = nodeRequire("node:fs") as FileSystem | undefined,
+): StorageAdapter => {
+  if (!fs) throw new Error("The file system is not available.");
+  const files = { current: path, backup: `${path}.bak` };
+  return Object.freeze({
+    name: "file",
+    read: (slot: StorageSlot) => {
+      try {
+        return fs.readFileSync(files[slot], "utf8");
+      } catch (e) {
+        if ((e as { code?: string }).code === "ENOENT") return undefined;
+        throw e;
+      }
+    },
+    write: (slot: StorageSlot, data: string) => {
+      const tmp = `${files[slot]}.tmp`;
+      fs.writeFileSync(tmp, data, "utf8");
+      fs.renameSync(tmp, files[slot]);
+    },
+  });
+};
+
+/**
+ * Resolve an `IDBRequest`.
+ */
+const request = <T>(req: IDBRequest<T>) => {
+  const done = new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return done;
+};
+
+/**
+ * Store snapshots in an IndexedDB object store. Reads are
+ * asynchronous, so managers using it must be created with
+ * `UIDManagerAsync`.
+ * @param {string} [name]
+ * Database name. Defaults to `uidmanager`.
+ * @param {IDBFactory} [factory]
+ * Defaults to `globalThis.indexedDB`.
+ * @returns {StorageAdapter}
+ */
+export const indexedDBAdapter = (
+  name = "uidmanager",
+  factory: IDBFactory = globalThis.indexedDB,
+): StorageAdapter => {
+  if (!factory) throw new Error("IndexedDB is not available.");
+  const store = "snapshots";
+  let db: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    if (!db) {
+      const req = factory.open(name, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(store);
+      db = request(req);
+    }
+    return db;
+  };
+  const objectStore = async (mode: IDBTransactionMode) => {
+    const database = await open();
+    return database.transaction(store, mode).objectStore(store);
+  };
+  return Object.freeze({
+    name: "indexedDB",
+    read: async (slot: StorageSlot) => {
+      const value = await request((await objectStore("readonly")).get(slot));
+      return typeof value === "string" ? value : undefined;
+    },
+    write: async (slot: StorageSlot, data: string) => {
+      await request((await objectStore("readwrite")).put(data, slot));
+    },
+  });
+};
+
+/**
+ * Hex encoded SHA-1 digest of a string.
+ */
+const checksum = (body: string) => {
+  const hex = (b: number) => b.toString(16).padStart(2, "0");
+  return Array.from(sha1(utf8(body)), hex).join("");
+};
+
+/**
+ * Wrap a serialized snapshot with its checksum.
+ */
+const seal = (body: string) => {
+  const sealed = { checksum: checksum(body), body };
+  return JSON.stringify(sealed);
+};
+
+/**
+ * Retrieve the serialized snapshot from sealed data, or `undefined`
+ * if the data is missing, malformed, or fails the checksum.
+ */
+const unseal = (data: string | undefined): string | undefined => {
+  if (typeof data !== "string") return undefined;
+  try {
+    const { checksum: sum, body } = JSON.parse(data);
+    if (typeof body === "string" && sum === checksum(body)) return body;
+  } catch (e) {
+    // Corrupt data.
+  }
+  return undefined;
+};
+
+const isPromise = (value: unknown): value is Promise<unknown> => {
+  const then = (value as Promise<unknown> | undefined)?.then;
+  return typeof then === "function";
+};
+
+/**
+ * Read both slots of an adapter, waiting for asynchronous reads.
+ * @param {StorageAdapter} adapter
+ * @returns {Promise<StorageAdapter>}
+ * An adapter that answers reads from the values just read and
+ * forwards writes to `adapter`.
+ */
+export const preload = async (
+  adapter: StorageAdapter,
+): Promise<StorageAdapter> => {
+  const current = await adapter.read("current");
+  const backup = await adapter.read("backup");
+  return Object.freeze({
+    name: adapter.name,
+    read: (slot: StorageSlot) => (slot === "current" ? current : backup),
+    write: (slot: StorageSlot, data: string) => adapter.write(slot, data),
+  });
+};
+
+/**
+ * Hydrate a manager from a `StorageAdapter` and write its changes
+ * back according to the autosave mode.
+ * @param {StorageOptions} options
+ * @param {LogSink} log
+ * Receives write failures and corruption warnings.
+ * @returns
+ */
+export const persistence = (options: StorageOptions, log: LogSink) => {
+  const { adapter, autosave = "debounce", delay = 100 } = options;
+  if (!["debounce", "write-through", "off"].includes(autosave)) {
+    throw new Error(`Invalid autosave mode: ${autosave}.`);
+  }
+  const operation = "UIDManager.storage";
+  let serialize: () => string = () => "";
+  let lastGood: string | undefined;
+  let queue: Promise<void> = Promise.resolve();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let dirty = false;
+  let loading = false;
+
+  const write = async (data: string) => {
+    if (lastGood && lastGood !== data) await adapter.write("backup", lastGood);
+    await adapter.write("current", data);
+    lastGood = data;
+  };
+
+  const save = () => {
+    dirty = false;
+    let data: string;
+    try {
+      data = seal(serialize());
+    } catch (error) {
+      const message = "Could not serialize the snapshot.";
+      log({
+        level: "error",
+        operation,
+        message,
+        error,
+      });
+      return;
+    }
+    queue = queue
+      .then(() => write(data))
+      .catch((error) => {
+        const message = `Could not write to ${adapter.name} storage.`;
+        log({
+          level: "error",
+          operation,
+          message,
+          error,
+        });
+      });
+  };
+
+  return Object.freeze({
+    /**
+     * Hydrate from the adapter, falling back to the backup slot if
+     * the current one is corrupt or rejected by `hydrate`.
+     * @param {(body: string) => boolean} hydrate
+     * Import a serialized snapshot, returning `false` if invalid.
+     * @param {() => string} $serialize
+     * Serialize the manager for writing.
+     */
+    start: (hydrate: (body: string) => boolean, $serialize: () => string) => {
+      serialize = $serialize;
+      const slots: StorageSlot[] = ["current", "backup"];
+      const stored = slots.map((slot) => adapter.read(slot));
+      if (stored.some(isPromise)) {
+        const msg = `The ${adapter.name} adapter reads asynchronously.`;
+        throw new Error(`${msg} Use UIDManagerAsync.`);
+      }
+      const data = stored as (string | undefined)[];
+      loading = true;
+      try {
+        const found = data.findIndex((d) => {
+          const body = unseal(d);
+          return body !== undefined && hydrate(body);
+        });
+        if (found >= 0) lastGood = data[found];
+        if (found !== 0 && data[0] !== undefined) {
+          const message =
+            found > 0
+              ? "Stored snapshot is corrupt. Restored the backup."
+              : "Stored snapshot and backup are corrupt. Starting empty.";
+          log({ level: found > 0 ? "warn" : "error", operation, message });
+        }
+      } finally {
+        loading = false;
+      }
+    },
+
+    /**
+     * Note that the manager changed.
+     */
+    changed: () => {
+      if (loading) return;
+      dirty = true;
+      if (autosave === "write-through") save();
+      if (autosave === "debounce") {
+        if (timer !== undefined) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = undefined;
+          if (dirty) save();
+        }, delay);
+      }
+    },
+
+    /**
+     * Write any pending changes now.
+     * @returns {Promise<void>}
+     * Resolves once every write so far has finished.
+     */
+    flush: (): Promise<void> => {
+      if (timer !== undefined) clearTimeout(timer);
+      timer = undefined;
+      if (dirty) save();
+      return queue;
+    },
+  });
+};
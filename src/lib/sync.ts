@@ -0,0 +1,373 @@
+/**
+ * @file sync.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview `export const synchronize, broadcastTransport, ...`
+ * Keep `UIDManager` instances in several tabs, workers, or other
+ * contexts in sync over a `BroadcastChannel` or any other
+ * `postMessage`-like transport. Every change to an association is
+ * replicated to the other contexts. Each change carries a Lamport
+ * clock and the id of the context that made it, so when two contexts
+ * change the same key at the same time every context keeps the same
+ * winner: the higher clock, or on a tie the higher context id.
+ * Contexts that join late receive the full state of the others.
+ */
+
+import type { ChangeEvent, Unsubscribe } from "./events";
+import { createLogger } from "./logger";
+import type { LoggerOption, LogLevel } from "./logger";
+import { isRecord, jsonKeyCodec } from "./snapshot";
+import type { KeyCodec } from "./snapshot";
+import { uid } from "./uid";
+
+type Listener = (event: { data: unknown }) => void;
+
+/**
+ * Carries messages between contexts. `BroadcastChannel` is one;
+ * `MessagePort` and worker globals work too. Messages sent by an
+ * endpoint must not be delivered back to it.
+ */
+export type SyncTransport = {
+  postMessage(message: unknown): void;
+  addEventListener(type: "message", listener: Listener): void;
+  removeEventListener(type: "message", listener: Listener): void;
+
+  /**
+   * Called by `close`, if present.
+   */
+  close?(): void;
+};
+
+/**
+ * What `synchronize` needs from a manager. Every `UIDManager` and
+ * namespace view is one.
+ */
+export type SyncTarget<K = unknown> = {
+  subscribe: (listener: (event: ChangeEvent<K>) => void) => Unsubscribe;
+  entries: () => [K, string][];
+  getUIDFor: (key: K) => string | undefined;
+  set: (entry: [K, string]) => unknown;
+  deleteUIDFor: (key: K) => unknown;
+};
+
+/**
+ * Applies a replicated change to a manager: associates the key with
+ * the UID, or deletes its association if the UID is `null`.
+ */
+type Replica = (key: never, uid: string | null) => void;
+
+/**
+ * The `Replica` of every manager and namespace view, kept by
+ * `registerReplica`.
+ */
+const replicas = new WeakMap<object, Replica>();
+
+/**
+ * Let `synchronize` apply remote changes to `target` through `apply`
+ * rather than `set`, whose checks against the generator history
+ * would reject a UID this context generated and another context
+ * moved to a different key.
+ * @param {object} target
+ * @param {(key: K, uid: string | null) => void} apply
+ */
+export const registerReplica = <K>(
+  target: object,
+  apply: (key: K, uid: string | null) => void,
+) => {
+  replicas.set(target, apply);
+};
+
+/**
+ * Options for `synchronize`.
+ */
+export type SyncOptions<K = unknown> = {
+  transport: SyncTransport;
+
+  /**
+   * Converts keys to values that can be posted and back. Keys must
+   * decode to values equal by `===` in every context, so object keys
+   * need a codec that returns the same instance. Defaults to
+   * `jsonKeyCodec`.
+   */
+  codec?: KeyCodec<K>;
+
+  /**
+   * Identifies this context and breaks ties between concurrent
+   * changes. Must be unique among the connected contexts. Defaults
+   * to a random UUID.
+   */
+  id?: string;
+
+  /**
+   * Where diagnostics are sent: `"console"` (default), `"silent"`,
+   * or a custom `LogSink`.
+   */
+  logger?: LoggerOption;
+
+  /**
+   * Minimum level of diagnostics to send. Defaults to `"info"`.
+   */
+  logLevel?: LogLevel;
+};
+
+/**
+ * Lamport clock and context id of the latest change to a key.
+ */
+type Stamp = [number, string];
+
+/**
+ * A key's latest change: the encoded key, its UID or `null` once
+ * deleted, and its stamp.
+ */
+type Change = [unknown, string | null, number, string];
+
+const protocol = "uidmanager-sync/1";
+
+/**
+ * What contexts tell each other: a change, the state of a context
+ * that just connected, and the state of a context already connected
+ * in reply.
+ */
+type Body =
+  | { kind: "change"; change: Change }
+  | { kind: "hello"; state: Change[] }
+  | { kind: "state"; to: string; state: Change[] };
+
+type Message = Body & { protocol: typeof protocol; from: string };
+
+/**
+ * Check whether stamp `a` wins over stamp `b`.
+ */
+const newer = ([t, o]: Stamp, [u, p]: Stamp) => t > u || (t === u && o > p);
+
+const isChange = (value: unknown): value is Change => {
+  if (!Array.isArray(value) || value.length !== 4) return false;
+  const [, v, time, origin] = value;
+  if (typeof v !== "string" && v !== null) return false;
+  return Number.isFinite(time) && typeof origin === "string";
+};
+
+const isMessage = (data: unknown): data is Message => {
+  if (!isRecord(data) || data.protocol !== protocol) return false;
+  if (typeof data.from !== "string") return false;
+  if (data.kind === "change") return isChange(data.change);
+  const state = Array.isArray(data.state) && data.state.every(isChange);
+  if (data.kind === "hello") return state;
+  return data.kind === "state" && typeof data.to === "string" && state;
+};
+
+/**
+ * Replicate the changes of a manager to the managers of other
+ * contexts connected to the same transport, and theirs to it. On
+ * connecting, the manager's entries are merged with the state of the
+ * contexts already connected.
+ * @template K
+ * Type of the keys.
+ * @param {SyncTarget<K>} target
+ * A `UIDManager` or namespace view.
+ * @param {SyncOptions<K>} options
+ * @returns
+ * @example
+ * const manager = UIDManager();
+ * const sync = synchronize(manager, { transport: broadcastTransport() });
+ * manager.generateUIDFor("a"); // replicated to every other tab
+ * sync.close();
+ */
+export const synchronize = <K = unknown>(
+  target: SyncTarget<K>,
+  options: SyncOptions<K>,
+) => {
+  const { transport, codec = jsonKeyCodec as KeyCodec<K> } = options;
+  const log = createLogger(options.logger, options.logLevel);
+  const id = options.id ?? uid([], { logger: "silent" }).generate();
+  if (typeof id !== "string" || !id) {
+    throw new Error("Sync ids must be non-empty strings.");
+  }
+  const operation = "synchronize";
+
+  /**
+   * Latest change to each key, keyed by the JSON of the encoded key.
+   */
+  const changes = new Map<string, Change>();
+  let clock = 0;
+  let applying = false;
+  let closed = false;
+
+  const post = (message: Body) => {
+    try {
+      transport.postMessage({ ...message, protocol, from: id });
+    } catch (error) {
+      const msg = "Could not post a message.";
+      log({
+        level: "error",
+        operation,
+        message: msg,
+        error,
+      });
+    }
+  };
+
+  /**
+   * Every key with its UID, or `null` if deleted, and latest stamp.
+   */
+  const stateOf = (): Change[] => {
+    const state = target.entries().map(([key, v]): Change => {
+      const encoded = codec.toKey(key);
+      const latest = changes.get(JSON.stringify(encoded));
+      return [encoded, v, latest?.[2] ?? 0, latest?.[3] ?? id];
+    });
+    const live = new Set(state.map(([key]) => JSON.stringify(key)));
+    changes.forEach((change, json) => {
+      if (change[1] === null && !live.has(json)) state.push(change);
+    });
+    return state;
+  };
+
+  /**
+   * Apply a change made in another context if it wins over the
+   * latest change to its key here.
+   */
+  const merge = (change: Change) => {
+    const [encoded, v, time, origin] = change;
+    clock = Math.max(clock, time);
+    const json = JSON.stringify(encoded);
+    const key = codec.fromKey(encoded);
+    const current = target.getUIDFor(key);
+    const latest = changes.get(json);
+    const stamp: Stamp = latest ? [latest[2], latest[3]] : [0, id];
+    if ((latest || current !== undefined) && !newer([time, origin], stamp)) {
+      return;
+    }
+    changes.set(json, change);
+    if (current === (v ?? undefined)) return;
+    const replica = replicas.get(target) as
+      ((key: K, uid: string | null) => void) | undefined;
+    applying = true;
+    try {
+      if (replica) replica(key, v);
+      else if (v === null) target.deleteUIDFor(key);
+      else target.set([key, v]);
+    } catch (error) {
+      // Reported below.
+    } finally {
+      applying = false;
+    }
+    if (target.getUIDFor(key) !== (v ?? undefined)) {
+      const message = `Could not apply a change from ${origin} to ${v}.`;
+      log({ level: "warn", operation, message });
+    }
+  };
+
+  const unsubscribe = target.subscribe((event) => {
+    if (applying) return;
+    clock += 1;
+    const encoded = codec.toKey(event.key);
+    const change: Change = [encoded, event.newUID ?? null, clock, id];
+    changes.set(JSON.stringify(encoded), change);
+    post({ kind: "change", change });
+  });
+
+  const receive = (event: { data: unknown }) => {
+    const { data } = event;
+    if (closed || !isMessage(data) || data.from === id) return;
+    try {
+      if (data.kind === "change") merge(data.change);
+      if (data.kind === "hello") {
+        data.state.forEach(merge);
+        post({ kind: "state", to: data.from, state: stateOf() });
+      }
+      if (data.kind === "state" && data.to === id) data.state.forEach(merge);
+    } catch (error) {
+      const message = `Could not apply a message from ${data.from}.`;
+      log({
+        level: "error",
+        operation,
+        message,
+        error,
+      });
+    }
+  };
+
+  transport.addEventListener("message", receive);
+  post({ kind: "hello", state: stateOf() });
+
+  return Object.freeze({
+    /**
+     * The id of this context.
+     */
+    id,
+
+    /**
+     * Stop replicating and close the transport. The manager keeps its
+     * associations.
+     */
+    close: () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      transport.removeEventListener("message", receive);
+      transport.close?.();
+    },
+  });
+};
+
+/**
+ * Connect through a `BroadcastChannel`, which reaches every
+ * same-origin tab, window, and worker that opens a channel of the
+ * same name.
+ * @param {string} [name]
+ * Channel name. Defaults to `uidmanager`.
+ * @returns {SyncTransport}
+ */
+export const broadcastTransport = (name = "uidmanager"): SyncTransport => {
+  if (typeof BroadcastChannel !== "function") {
+    throw new Error("BroadcastChannel is not available.");
+  }
+  return new BroadcastChannel(name);
+};
+
+/**
+ * Create an in-process channel, e.g. for tests. Every transport
+ * connected to it receives the messages posted by the others,
+ * copied through JSON and delivered asynchronously like
+ * `BroadcastChannel` does.
+ * @returns
+ */
+export const memoryChannel = () => {
+  const endpoints = new Set<Set<Listener>>();
+  return Object.freeze({
+    /**
+     * Connect a new transport to the channel.
+     * @returns {SyncTransport}
+     */
+    connect: (): SyncTransport => {
+      const listeners = new Set<Listener>();
+      endpoints.add(listeners);
+      return Object.freeze({
+        postMessage: (message: unknown) => {
+          if (!endpoints.has(listeners)) {
+            throw new Error("The transport is closed.");
+          }
+          endpoints.forEach((other) => {
+            if (other === listeners) return;
+            const data = JSON.parse(JSON.stringify(message));
+            queueMicrotask(() => {
+              if (endpoints.has(other)) other.forEach((fn) => fn({ data }));
+            });
+          });
+        },
+        addEventListener: (_: "message", fn: Listener) => {
+          listeners.add(fn);
+        },
+        removeEventListener: (_: "message", fn: Listener) => {
+          listeners.delete(fn);
+        },
+        close: () => {
+          endpoints.delete(listeners);
+        },
+      });
+    },
+  });
+};
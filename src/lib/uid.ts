@@ -1,48 +1,389 @@
 /**
  * @file uid.ts
- * @version 1.1.1
+ * @version 1.2.0
  * @author Cadence Holmes
  * @copyright Cadence Holmes 2023
  * @license MIT
- * @fileoverview `export const uid`
+ * @fileoverview `export const uid, validator, validateDetailed`
  * Generate RFC4122 version 4 compliant unique identifiers
- * using pseudo-random values from `window.crypto` (with a
- * fallback to `Math.Random`). A pre-generated lookup table
- * is used for performance optimization, and generated UIDs
- * are checked against an array of previously generated UIDs
- * to ensure uniqueness.
+ * using pseudo-random values from the best available CSPRNG
+ * (with a fallback to `Math.Random`, see `random.ts`). A
+ * pre-generated lookup table is used for performance
+ * optimization, and generated UIDs are checked against a
+ * hashed history of previously generated UIDs to ensure
+ * uniqueness. The history is kept according to a configurable
+ * retention policy. Identifiers can also be emitted as ULIDs,
+ * NanoIDs, or compact UUID spellings (see `formats.ts`).
  * @note Based on discussions found here:
  * https://stackoverflow.com/questions/105034/create-guid-uid-in-javascript
  */
 
 /* eslint-disable no-bitwise */
 
+import { canonicalize, createFormat } from "./formats";
+import type { Format, FormatOption } from "./formats";
+import { detectRandomSource, toRandomSource } from "./random";
+import { createLogger } from "./logger";
+import { variant as variantOf, version as versionOf } from "./binary";
+import type { UUIDVariant } from "./binary";
+import type { LoggerOption, LogLevel } from "./logger";
+import type {
+  RandomOption,
+  RandomSourceName,
+  SeededRandomSource,
+} from "./random";
+
+/**
+ * UID versions that can be generated.
+ * - `4` : RFC 9562 version 4, random.
+ * - `7` : RFC 9562 version 7, Unix millisecond timestamp followed by
+ * a monotonic counter and random bits. Sorts by creation time.
+ */
+export type UIDVersion = 4 | 7;
+
+/**
+ * Which previously generated UIDs a generator remembers, and
+ * therefore which UIDs it is guaranteed never to generate again.
+ * Retired UIDs (see `retire`) are always remembered.
+ * - `all` : Remember every UID. Never reissues any UID generated
+ * or set as existing. Memory grows with every UID generated.
+ * - `live` : Remember UIDs until they are released, e.g. when a
+ * `UIDManager` deletes the association. Never reissues a UID that
+ * is still in use; a released UID may in theory be generated again.
+ * - `lru` : Remember only the `max` most recently generated UIDs.
+ * Never reissues any of those; older UIDs may in theory repeat.
+ * - `window` : Remember UIDs generated within the last `ms`
+ * milliseconds. Never reissues any of those; older UIDs may in
+ * theory repeat.
+ *
+ * Random version 4 UIDs carry 122 random bits, so for every
+ * policy a repeat is astronomically unlikely; the policy only
+ * decides what is checked deterministically. `UIDManager` also
+ * never generates a UID that is currently associated with a key.
+ */
+export type RetentionPolicy =
+  | { type: "all" }
+  | { type: "live" }
+  | { type: "lru"; max: number }
+  | { type: "window"; ms: number };
+
+/**
+ * A copy of a generator's history, as used by snapshots.
+ */
+export type GeneratorHistory = {
+  /**
+   * Retained UIDs paired with the time they were added, oldest first.
+   */
+  uids: [string, number][];
+
+  /**
+   * Retired UIDs.
+   */
+  retired: string[];
+};
+
+/**
+ * Options for `uid()`.
+ */
+export type UIDOptions = {
+  /**
+   * Version of the generated UIDs. Defaults to `4`.
+   */
+  version?: UIDVersion;
+
+  /**
+   * String format of the generated identifiers. Defaults to `uuid`.
+   * The compact UUID formats encode a UUID of `version`. See
+   * `FormatOption`.
+   */
+  format?: FormatOption;
+
+  /**
+   * Clock used for version 7 timestamps and the `window` retention
+   * policy. Defaults to `Date.now`.
+   * @returns {number} Unix timestamp in milliseconds.
+   */
+  clock?: () => number;
+
+  /**
+   * Which previously generated UIDs to remember. Defaults to
+   * `{ type: "all" }`. See `RetentionPolicy`.
+   */
+  retention?: RetentionPolicy;
+
+  /**
+   * Throw when no cryptographically secure random source is
+   * available instead of falling back to `Math.random`.
+   * Defaults to `false`.
+   */
+  strict?: boolean;
+
+  /**
+   * Random source to use instead of the detected CSPRNG. Either a
+   * `RandomSource` (e.g. `seededRandom(seed)`) or a function that
+   * fills a `Uint32Array`.
+   */
+  random?: RandomOption;
+
+  /**
+   * Where diagnostics are sent: `"console"` (default), `"silent"`,
+   * or a custom `LogSink`.
+   */
+  logger?: LoggerOption;
+
+  /**
+   * Minimum level of diagnostics to send. Defaults to `"info"`.
+   */
+  logLevel?: LogLevel;
+};
+
+/**
+ * UID versions recognized by the validator. Versions 3 and 5
+ * are name-based (see `names.ts`) and are never generated here.
+ */
+export const validVersions: number[] = [3, 4, 5, 7];
+
+/**
+ * Filter strings down to the RFC 9562 compliant unique identifiers
+ * of any recognized version (see `validVersions`).
+ * @param {null | string | (string | null)[]} ids
+ * Either a single string or array of strings to test.
+ * @returns {string[]}
+ */
+export const validator = (ids: null | string | (string | null)[]): string[] => {
+  if (!ids) return [];
+  const re = new RegExp(
+    "^[0-9A-F]{8}-[0-9A-F]{4}-" +
+      `[${validVersions.join("")}][0-9A-F]{3}-` +
+      "[89AB][0-9A-F]{3}-[0-9A-F]{12}$",
+    "i",
+  );
+  const arr = Array.isArray(ids) ? ids : [ids];
+  return arr.filter((id) => id && re.test(id)) as string[];
+};
+
+/**
+ * Why an input failed validation.
+ * - `type` : not a string.
+ * - `length` : not 36 characters once canonicalized.
+ * - `characters` : not hexadecimal digits in hyphenated groups.
+ * - `version` : version nibble not in `validVersions`.
+ * - `variant` : variant bits are not the RFC 9562 variant.
+ * - `duplicate` : repeats an earlier input.
+ * - `format` : not an identifier in the configured format (formats
+ * other than `uuid` are not broken down further).
+ */
+export type ValidationReason =
+  | "type"
+  | "length"
+  | "characters"
+  | "version"
+  | "variant"
+  | "duplicate"
+  | "format";
+
+/**
+ * The validation result for one input.
+ */
+export type ValidationReport = {
+  /**
+   * The input as given.
+   */
+  input: unknown;
+
+  valid: boolean;
+
+  /**
+   * The canonical spelling of the input, if it is a string.
+   */
+  uid?: string;
+
+  /**
+   * The version nibble, if the input is shaped like a UUID.
+   */
+  version?: number;
+
+  /**
+   * The variant, if the input is shaped like a UUID.
+   */
+  variant?: UUIDVariant;
+
+  /**
+   * Why the input is invalid. Missing for valid inputs.
+   */
+  reason?: ValidationReason;
+
+  /**
+   * A readable explanation of `reason`.
+   */
+  message?: string;
+};
+
+const reasons: Record<ValidationReason, string> = {
+  type: "UIDs must be strings.",
+  length: "UUIDs must be 36 characters long.",
+  characters: "UUIDs must be hexadecimal digits grouped 8-4-4-4-12.",
+  version: `The version must be one of ${validVersions.join(", ")}.`,
+  variant: "The variant must be the RFC 9562 variant (8, 9, a, or b).",
+  duplicate: "The UID repeats an earlier input.",
+  format: "The UID is not in the configured format.",
+};
+
+/**
+ * Build the report of an invalid input.
+ */
+const rejected = (
+  report: ValidationReport,
+  reason: ValidationReason,
+): ValidationReport => ({
+  ...report,
+  valid: false,
+  reason,
+  message: reasons[reason],
+});
+
+/**
+ * Validate inputs as RFC 9562 compliant unique identifiers of any
+ * recognized version, reporting on each one. Braces, a `urn:uuid:`
+ * prefix, missing hyphens, and any letter case are accepted (see
+ * `canonicalize`), and the canonical spelling is reported as `uid`.
+ * Repeats of an earlier input are reported as duplicates.
+ * @param {unknown} ids
+ * Either a single value or an array of values to test.
+ * @returns {ValidationReport[]}
+ * One report per input, in order.
+ * @example
+ * validateDetailed(["{BA7FAA56-24A2-4098-9850-2CDB3D8E5E85}", "nope"]);
+ * // [{ valid: true, uid: "ba7faa56-...", version: 4, ... },
+ * //  { valid: false, reason: "length", ... }]
+ */
+export const validateDetailed = (ids: unknown): ValidationReport[] => {
+  const seen = new Set<string>();
+  const arr: unknown[] = Array.isArray(ids) ? ids : [ids];
+  return arr.map((input) => {
+    if (typeof input !== "string") {
+      return rejected({ input, valid: false }, "type");
+    }
+    const id = canonicalize(input);
+    const report: ValidationReport = { input, valid: false, uid: id };
+    // 32 digits are only left unhyphenated if one is not hexadecimal.
+    if (id.length !== 36 && id.length !== 32) {
+      return rejected(report, "length");
+    }
+    if (!/^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/.test(id)) {
+      return rejected(report, "characters");
+    }
+    report.version = versionOf(id);
+    report.variant = variantOf(id);
+    if (!validVersions.includes(report.version)) {
+      return rejected(report, "version");
+    }
+    if (report.variant !== "rfc9562") return rejected(report, "variant");
+    if (seen.has(id)) return rejected(report, "duplicate");
+    seen.add(id);
+    return { ...report, valid: true };
+  });
+};
+
 /**
  * Generate RFC4122 version 4 compliant unique identifiers
- * using pseudo-random values from `window.crypto` (with a
- * fallback to `Math.Random`). A pre-generated lookup table
- * is used for performance optimization, and generated UIDs
- * are checked against an array of previously generated UIDs
- * to ensure uniqueness.
+ * using pseudo-random values from the best available CSPRNG
+ * (with a fallback to `Math.Random`, see `random.ts`). A
+ * pre-generated lookup table is used for performance
+ * optimization, and generated UIDs are checked against a
+ * hashed history of previously generated UIDs to ensure
+ * uniqueness. The history is kept according to a configurable
+ * retention policy. Pass `{ version: 7 }` to generate
+ * time-ordered RFC 9562 version 7 identifiers instead.
  * @param {string[]} [uids]
  * Pass an array of existing UIDs to set/restore state.
+ * @param {UIDOptions} [options]
+ * Generator options. Pass `{ strict: true }` to throw if no
+ * CSPRNG is available instead of falling back to `Math.random`.
  * @returns
  */
 export const uid = (
   uids?: string[],
+  options: UIDOptions = {},
 ): {
   /**
    * Determine which pseudo-random number generator to use,
    * generate four random values, and coerce the output to
-   * a RFC4122 version 4 compliant unique identifier. Checks
+   * a RFC4122 version 4 compliant unique identifier (or a
+   * RFC 9562 version 7 identifier if configured). Checks
    * with stored UIDs to absolutely ensure the value is unique.
+   * Version 7 identifiers are strictly increasing within a
+   * single generator, even when the clock moves backwards.
    * @returns {string}
-   * RFC4122 version 4 compliant unique identifier as alpha-numeric `string`.
+   * Unique identifier as alpha-numeric `string`.
    */
   generate: () => string;
 
   /**
-   * Retrieve the array of previously generated UIDs.
+   * The configured UID version.
+   */
+  version: UIDVersion;
+
+  /**
+   * The configured format. Generated, validated, and remembered
+   * identifiers are all in this format, spelled by its `normalize`.
+   */
+  format: Format;
+
+  /**
+   * Name of the random source in use, e.g. `web-crypto`,
+   * `node-crypto`, `seeded`, or `math-random` (insecure).
+   */
+  source: RandomSourceName;
+
+  /**
+   * Retrieve the seed and current state of a seeded random source
+   * so the run can be replayed. Returns `undefined` for any other
+   * source.
+   * @returns {{ seed: number; state: number[] } | undefined}
+   */
+  getRandomState: () => { seed: number; state: number[] } | undefined;
+
+  /**
+   * Check if a UID is remembered, i.e. it has previously been
+   * generated or set as existing and is still retained, or it
+   * has been retired.
+   * @param {string} id
+   * @returns {boolean}
+   */
+  has: (id: string) => boolean;
+
+  /**
+   * Signal that a UID is no longer in use. With the `live` retention
+   * policy the UID is dropped from the history; otherwise this does
+   * nothing.
+   * @param {string} id
+   */
+  release: (id: string) => void;
+
+  /**
+   * Permanently retire a UID. Retired UIDs are remembered regardless
+   * of the retention policy and are never generated again.
+   * @param {string} id
+   */
+  retire: (id: string) => void;
+
+  /**
+   * Forget a UID, removing it from the history and from the retired
+   * UIDs. Returns `true` if the UID was remembered.
+   * @param {string} id
+   * @returns {boolean}
+   */
+  forget: (id: string) => boolean;
+
+  /**
+   * The configured retention policy.
+   */
+  retention: RetentionPolicy;
+
+  /**
+   * Retrieve the array of previously generated UIDs that are still
+   * retained, oldest first. Retired UIDs are not included.
    * @returns {string[]}
    */
   getExisting: () => string[];
@@ -58,7 +399,36 @@ export const uid = (
   setExisting: (ids: string[]) => void;
 
   /**
-   * Validate as RFC4122 version 4 compliant unique identifier.
+   * Retrieve a copy of the retained UIDs with the time each was
+   * added, and of the retired UIDs.
+   * @returns {GeneratorHistory}
+   */
+  getHistory: () => GeneratorHistory;
+
+  /**
+   * Replace the retained and retired UIDs, e.g. with a value
+   * previously returned by `getHistory`. Only replaces the history
+   * if every UID and time is valid. Returns `true` on success and
+   * `false` if failed.
+   * @param {GeneratorHistory} history
+   * @returns {boolean}
+   */
+  setHistory: (history: GeneratorHistory) => boolean;
+
+  /**
+   * Pass the inverse of every later change to the history to
+   * `record`, e.g. to roll the changes back by calling them in
+   * reverse order. An inverse may return a function to call once
+   * every inverse has run, which puts restored UIDs back in their
+   * place.
+   * @param {(undo: () => (() => void) | void) => void} record
+   */
+  journal: (record: (undo: () => (() => void) | void) => void) => void;
+
+  /**
+   * Validate as identifiers in the configured format. For `uuid`
+   * these are RFC 9562 compliant unique identifiers of any
+   * recognized version (see `validVersions`).
    * @param {string | string[]} uids
    * Either a single string or array of strings to test.
    * @returns {string[]}
@@ -81,8 +451,208 @@ export const uid = (
    * const isValid = validated.length === uids.length; // false
    */
   validate: (ids: null | string | (string | null)[]) => string[];
+
+  /**
+   * Validate inputs as identifiers in the configured format,
+   * reporting on each one (see `validateDetailed`). Inputs are
+   * spelled by the format's `normalize` first.
+   * @param {unknown} ids
+   * Either a single value or an array of values to test.
+   * @returns {ValidationReport[]}
+   */
+  validateDetailed: (ids: unknown) => ValidationReport[];
 } => {
-  let generated = uids || [];
+  const { version = 4, clock = Date.now } = options;
+  const { strict = false, random } = options;
+  const log = createLogger(options.logger, options.logLevel);
+  const { retention = { type: "all" } } = options;
+  const validPolicy =
+    ["all", "live"].includes(retention.type) ||
+    (retention.type === "lru" && retention.max >= 0) ||
+    (retention.type === "window" && retention.ms >= 0);
+  if (!validPolicy) {
+    throw new Error(`Invalid retention policy: ${JSON.stringify(retention)}.`);
+  }
+  if (version !== 4 && version !== 7) {
+    throw new Error(`Unsupported UID version: ${version}.`);
+  }
+
+  const source = random ? toRandomSource(random) : detectRandomSource();
+  if (!source.secure) {
+    const msg = "No cryptographically secure random source is available.";
+    if (strict) throw new Error(msg);
+    if (!random) {
+      const message = `${msg} Falling back to Math.random.`;
+      log({ level: "warn", operation: "uid", message });
+    }
+  }
+
+  const context = {
+    isUUID: (id: string) => validator(id).length === 1,
+    random: () => source.fill(new Uint32Array(1))[0],
+    clock,
+  };
+  const format = createFormat(context, options.format);
+
+  /**
+   * Filter strings down to identifiers in the configured format.
+   */
+  const validate = (ids: null | string | (string | null)[]): string[] => {
+    if (!ids) return [];
+    const arr = Array.isArray(ids) ? ids : [ids];
+    return arr.filter(
+      (id) => typeof id === "string" && format.test(id),
+    ) as string[];
+  };
+
+  /**
+   * Report on each input. Formats other than `uuid` only report
+   * whether the identifier is in the format.
+   */
+  const inspect = (ids: unknown): ValidationReport[] => {
+    if (format.name === "uuid") return validateDetailed(ids);
+    const seen = new Set<string>();
+    const arr: unknown[] = Array.isArray(ids) ? ids : [ids];
+    return arr.map((input) => {
+      if (typeof input !== "string") {
+        return rejected({ input, valid: false }, "type");
+      }
+      const id = format.normalize(input);
+      const report: ValidationReport = { input, valid: false, uid: id };
+      if (!format.test(id)) return rejected(report, "format");
+      if (seen.has(id)) return rejected(report, "duplicate");
+      seen.add(id);
+      return { ...report, valid: true };
+    });
+  };
+
+  /**
+   * Retained UIDs mapped to the time they were added. `Map` keeps
+   * insertion order, so the oldest entries are always first.
+   */
+  let history = new Map<string, number>();
+  const retired = new Set<string>();
+
+  /**
+   * The rank of each entry of `history` in insertion order, so an
+   * undone removal can put the entry back in its place.
+   */
+  let ranks = new Map<string, number>();
+  let rank = 0;
+
+  /**
+   * Receives the inverse of every change to the history, see
+   * `journal`.
+   */
+  let record: (undo: () => (() => void) | void) => void = () => {};
+
+  /**
+   * Append an entry to the history.
+   */
+  const put = (id: string, time: number, at = rank + 1) => {
+    history.delete(id);
+    history.set(id, time);
+    ranks.set(id, at);
+    rank = Math.max(rank, at);
+  };
+
+  /**
+   * Remove an entry from the history.
+   */
+  const erase = (id: string) => {
+    history.delete(id);
+    ranks.delete(id);
+  };
+
+  /**
+   * Sort the history by rank, putting entries whose removal was undone
+   * back in their place.
+   */
+  const reorder = () => {
+    const rankOf = ([id]: [string, number]) => ranks.get(id) as number;
+    history = new Map([...history].sort((a, b) => rankOf(a) - rankOf(b)));
+  };
+
+  /**
+   * Remove a UID from the history.
+   */
+  const drop = (id: string) => {
+    const time = history.get(id);
+    const at = ranks.get(id) as number;
+    if (time === undefined) return false;
+    erase(id);
+    record(() => {
+      put(id, time, at);
+      return reorder;
+    });
+    return true;
+  };
+
+  /**
+   * Drop entries the retention policy no longer keeps.
+   */
+  const prune = () => {
+    if (retention.type === "lru") {
+      const excess = history.size - retention.max;
+      const it = history.keys();
+      for (let i = 0; i < excess; i += 1) drop(it.next().value);
+    }
+    if (retention.type === "window") {
+      const cutoff = clock() - retention.ms;
+      const it = history.entries();
+      let next = it.next();
+      while (!next.done && next.value[1] < cutoff) {
+        drop(next.value[0]);
+        next = it.next();
+      }
+    }
+  };
+
+  /**
+   * Add UIDs to the history, most recent last.
+   * @param {string[]} ids
+   */
+  const remember = (ids: string[]) => {
+    const now = clock();
+    ids.forEach((id) => {
+      if (!drop(id)) {
+        record(() => {
+          erase(id);
+        });
+      }
+      put(id, now);
+    });
+    prune();
+  };
+
+  /**
+   * Replace the history, recording how to bring the previous one
+   * back.
+   */
+  const replace = (entries: [string, number][], ids?: string[]) => {
+    const before = { history, ranks, retired: [...retired] };
+    history = new Map();
+    ranks = new Map();
+    entries.forEach(([id, time]) => put(id, time));
+    if (ids) {
+      retired.clear();
+      ids.forEach((id) => retired.add(id));
+    }
+    record(() => {
+      ({ history, ranks } = before);
+      retired.clear();
+      before.retired.forEach((id) => retired.add(id));
+    });
+  };
+
+  remember((uids || []).map(format.normalize));
+
+  /**
+   * Version 7 state. The most recently used timestamp and the
+   * 12-bit counter stored in the `rand_a` field.
+   */
+  let lastTime = -1;
+  let counter = 0;
 
   /**
    * Lookup table holding 0-255 as hexadecimal numbers.
@@ -131,58 +701,142 @@ export const uid = (
   };
 
   /**
-   * Determine which prng to use and return an array of
-   * four 32-bit unsigned integers.
-   * @returns {[number, number, number, number]}
+   * Given an array of four random 32-bit unsigned integers, combine
+   * them with the current timestamp and counter to generate a RFC 9562
+   * version 7 unique identifier. The counter is seeded randomly each
+   * new millisecond, leaving at least 2048 increments before it
+   * overflows. On overflow, or if the clock moves backwards, the
+   * previous timestamp is reused or advanced so output stays sorted.
+   * @param {[number, number, number, number]} values
+   * Array holding four 32-bit unsigned integers.
+   * @returns {string}
+   * RFC 9562 version 7 unique identifier.
    */
-  const getRandomValues: () => [number, number, number, number] = (() => {
-    try {
-      const { crypto } = window || {};
-      return crypto?.getRandomValues
-        ? () => {
-            const values = crypto.getRandomValues(new Uint32Array(4));
-            return Array.from(values) as [number, number, number, number];
-          }
-        : () => {
-            const rand = () => (Math.random() * 0x100000000) >>> 0;
-            const arr = [rand(), rand(), rand(), rand()];
-            return arr as [number, number, number, number];
-          };
-    } catch (e) {
-      console.log("Window/Crypto error : Falling back to Math.Random", e);
-      return () => {
-        const rand = () => (Math.random() * 0x100000000) >>> 0;
-        const arr = [rand(), rand(), rand(), rand()];
-        return arr as [number, number, number, number];
-      };
+  const formatUidV7 = (values: [number, number, number, number]): string => {
+    const now = Math.floor(clock());
+    if (now > lastTime) {
+      lastTime = now;
+      counter = values[0] & 0x7ff;
+    } else {
+      counter += 1;
+      if (counter > 0xfff) {
+        lastTime += 1;
+        counter = 0;
+      }
     }
-  })();
+    const time = lastTime.toString(16).padStart(12, "0").slice(-12);
+    const v = [
+      lookup[0x70 | (counter >> 8)],
+      lookup[counter & 0xff],
+      lookup[(values[1] & 0x3f) | 0x80],
+      lookup[(values[1] >> 8) & 0xff],
+      lookup[(values[1] >> 16) & 0xff],
+      lookup[(values[1] >> 24) & 0xff],
+      lookup[values[2] & 0xff],
+      lookup[(values[2] >> 8) & 0xff],
+      lookup[(values[2] >> 16) & 0xff],
+      lookup[(values[2] >> 24) & 0xff],
+    ];
+    const s = [
+      time.slice(0, 8),
+      time.slice(8),
+      `${v[0]}${v[1]}`,
+      `${v[2]}${v[3]}`,
+      `${v[4]}${v[5]}${v[6]}${v[7]}${v[8]}${v[9]}`,
+    ];
+    return `${s[0]}-${s[1]}-${s[2]}-${s[3]}-${s[4]}`;
+  };
 
-  const validator = (ids: null | string | (string | null)[]): string[] => {
-    if (!ids) return [];
-    const re =
-      /^[0-9A-F]{8}-[0-9A-F]{4}-4[0-9A-F]{3}-[89AB][0-9A-F]{3}-[0-9A-F]{12}$/i;
-    const arr = Array.isArray(ids) ? ids : [ids];
-    return arr.filter((id) => id && re.test(id)) as string[];
+  /**
+   * Return an array of four 32-bit unsigned integers
+   * from the detected random source.
+   * @returns {[number, number, number, number]}
+   */
+  const getRandomValues = (): [number, number, number, number] => {
+    const values = source.fill(new Uint32Array(4));
+    return Array.from(values) as [number, number, number, number];
   };
 
   return {
-    getExisting: (): string[] => [...generated],
+    getExisting: (): string[] => {
+      prune();
+      return [...history.keys()];
+    },
     setExisting: (ids: string[]): boolean => {
-      const validated = validator(ids);
+      const validated = validate(ids);
       if (validated.length === ids.length) {
-        generated = [...validated];
+        replace([]);
+        remember(validated.map(format.normalize));
         return true;
       }
       return false;
     },
+    getHistory: (): GeneratorHistory => {
+      prune();
+      return { uids: [...history.entries()], retired: [...retired] };
+    },
+    setHistory: (h: GeneratorHistory): boolean => {
+      const ids = h.uids.map(([id]) => id);
+      const times = h.uids.every(([, time]) => Number.isFinite(time));
+      const valid =
+        times &&
+        validate(ids).length === ids.length &&
+        validate(h.retired).length === h.retired.length;
+      if (!valid) return false;
+      const { normalize } = format;
+      const entries = h.uids.map(([id, time]): [string, number] => [
+        normalize(id),
+        time,
+      ]);
+      replace(entries, h.retired.map(normalize));
+      prune();
+      return true;
+    },
     generate: (): string => {
       let id = null;
-      const gen = () => formatUid(getRandomValues());
-      while (!id || generated.includes(id)) id = gen();
-      generated.push(id);
+      const base = version === 7 ? formatUidV7 : formatUid;
+      const fromUUID = format.fromUUID || ((uuid: string) => uuid);
+      const gen = format.generate || (() => fromUUID(base(getRandomValues())));
+      prune();
+      while (!id || history.has(id) || retired.has(id)) id = gen();
+      remember([id]);
       return id;
     },
-    validate: validator,
+    has: (id: string): boolean => {
+      prune();
+      return history.has(id) || retired.has(id);
+    },
+    release: (id: string) => {
+      if (retention.type === "live") drop(id);
+    },
+    retire: (id: string) => {
+      if (retired.has(id)) return;
+      retired.add(id);
+      record(() => {
+        retired.delete(id);
+      });
+    },
+    forget: (id: string): boolean => {
+      const found = drop(id);
+      if (!retired.delete(id)) return found;
+      record(() => {
+        retired.add(id);
+      });
+      return true;
+    },
+    journal: (recorder: (undo: () => (() => void) | void) => void) => {
+      record = recorder;
+    },
+    retention,
+    validate,
+    validateDetailed: inspect,
+    version,
+    format,
+    source: source.name,
+    getRandomState: () => {
+      const { seed, getState } = source as Partial<SeededRandomSource>;
+      if (seed === undefined || !getState) return undefined;
+      return { seed, state: getState() };
+    },
   };
 };
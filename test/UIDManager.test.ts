@@ -10,7 +10,32 @@
 
 import { describe, it } from "mocha";
 import { expect } from "chai";
-import { UIDManager } from "../src/lib/UIDManager";
+import {
+  DEFAULT_NAMESPACE,
+  UIDManager,
+  UIDManagerAsync,
+} from "../src/lib/UIDManager";
+import type { UIDManagerInterface } from "../src/lib/UIDManager";
+import type { UID } from "../src/lib/brand";
+import {
+  DuplicateUIDError,
+  InvalidKeyError,
+  InvalidPatchError,
+  InvalidSnapshotError,
+  InvalidUIDError,
+} from "../src/lib/errors";
+import { NAMESPACES } from "../src/lib/names";
+import { encode } from "../src/lib/formats";
+import { parse } from "../src/lib/binary";
+import { diff, toPatch } from "../src/lib/diff";
+import { seededRandom } from "../src/lib/random";
+import type { LogEvent } from "../src/lib/logger";
+import type { ChangeEvent } from "../src/lib/events";
+import { SNAPSHOT_VERSION, byId } from "../src/lib/snapshot";
+import type { Snapshot } from "../src/lib/snapshot";
+import { memoryAdapter } from "../src/lib/storage";
+import type { StorageAdapter } from "../src/lib/storage";
+import { collectGarbage } from "./helpers/gc";
 
 const validHexNumbers = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
 const validHexLetters = ["a", "b", "c", "d", "e", "f"];
@@ -44,6 +69,21 @@ describe(`UIDManager.ts`, () => {
     expect(Object.isFrozen(manager)).to.be.true;
   });
 
+  it("should carry the key type and uid tag through every method", () => {
+    type User = { name: string };
+    const manager: UIDManagerInterface<User, "user"> = UIDManager<
+      User,
+      "user"
+    >();
+    const user = { name: "a" };
+    const id: UID<"user"> | null = manager.generateUIDFor(user);
+    const key: User | undefined | null = manager.getKeyFor(id as string);
+    const entries: [User, UID<"user">][] = manager.entries();
+    expect(key).to.equal(user);
+    expect(entries).to.eql([[user, id]]);
+    expect(manager.getMap().get(user)).to.equal(id);
+  });
+
   describe(`UIDManager.validate`, () => {
     const { validate } = UIDManager();
 
@@ -141,6 +181,23 @@ describe(`UIDManager.ts`, () => {
     });
   });
 
+  describe(`UIDManager.validateDetailed`, () => {
+    it(`should report on each input`, () => {
+      const manager = UIDManager();
+      const reports = manager.validateDetailed([
+        `{${validIds[0]}}`,
+        validIds[0],
+        "nope",
+      ]);
+      expect(reports?.map((r) => r.valid)).to.eql([true, false, false]);
+      expect(reports?.map((r) => r.reason)).to.eql([
+        undefined,
+        "duplicate",
+        "length",
+      ]);
+    });
+  });
+
   describe(`UIDManager.generateUIDFor`, () => {
     it(`should generate identifiers and store object associations in the internal map`, () => {
       const manager = UIDManager();
@@ -175,6 +232,58 @@ describe(`UIDManager.ts`, () => {
     });
   });
 
+  describe(`UIDManager.deriveUIDFor`, () => {
+    it(`should derive the same uid for the same key in every manager`, () => {
+      const a = UIDManager({ namespace: NAMESPACES.URL });
+      const b = UIDManager({ namespace: NAMESPACES.URL });
+      const keys = ["https://example.com", { id: 1 }, ["x", 2]];
+      const derivedA = keys.map((k) => a.deriveUIDFor(k));
+      const derivedB = keys.map((k) => b.deriveUIDFor(k));
+      expect(derivedA).to.eql(derivedB);
+      expect(a.uids()).to.eql(derivedA);
+      expect(a.validate(derivedA as string[])).to.eql(derivedA);
+    });
+
+    it(`should accept a namespace and version per call`, () => {
+      const manager = UIDManager();
+      const id = manager.deriveUIDFor("www.example.com", {
+        namespace: NAMESPACES.DNS,
+        version: 3,
+      });
+      expect(id).to.equal("5df41881-3aed-3515-88a7-2f4a814cf09e");
+      expect(manager.getKeyFor(id as string)).to.equal("www.example.com");
+    });
+
+    it(`should fail without a namespace or if the uid belongs to another key`, () => {
+      const manager = UIDManager();
+      expect(manager.deriveUIDFor("a")).to.be.null;
+      const ns = { namespace: NAMESPACES.OID };
+      const first = {};
+      const second = {};
+      expect(manager.deriveUIDFor(first, ns)).to.be.a("string");
+      expect(manager.deriveUIDFor(first, ns)).to.equal(
+        manager.getUIDFor(first),
+      );
+      expect(manager.deriveUIDFor(second, ns)).to.be.null;
+    });
+
+    it(`should not derive a retired uid again`, () => {
+      const dns = { namespace: NAMESPACES.DNS };
+      const url = { namespace: NAMESPACES.URL };
+      const manager = UIDManager({ errors: "throw" });
+      const id = manager.deriveUIDFor("a", dns);
+      manager.deleteUIDFor("a");
+      manager.retireUID(id);
+      expect(() => manager.deriveUIDFor("a", dns)).to.throw(DuplicateUIDError);
+      const rotating = UIDManager({ errors: "throw", rotation: true });
+      const first = rotating.deriveUIDFor("b", dns);
+      rotating.deriveUIDFor("b", url);
+      rotating.deleteUIDFor("b");
+      expect(rotating.hasKeyFor(first)).to.be.false;
+      expect(() => rotating.deriveUIDFor("b", dns)).to.throw(DuplicateUIDError);
+    });
+  });
+
   describe(`UIDManager.getUIDFor`, () => {
     it(`should return the paired uid for a given key`, () => {
       const manager = UIDManager();
@@ -289,6 +398,29 @@ describe(`UIDManager.ts`, () => {
     });
   });
 
+  describe(`UIDManager version 7`, () => {
+    const v7Ids = [
+      "018f3c4a-7b2e-7a10-9c3d-2f4e5a6b7c8d",
+      "018f3c4a-7b2f-7000-8123-456789abcdef",
+    ];
+
+    it(`should generate version 7 uids when configured`, () => {
+      const manager = UIDManager({ version: 7 });
+      const generated = validKeys.map(manager.generateUIDFor) as string[];
+      generated.forEach((id) => expect(id[14]).to.equal("7"));
+      expect(generated).to.eql([...generated].sort());
+    });
+
+    it(`should validate, set, and restore version 7 uids`, () => {
+      const manager = UIDManager();
+      expect(manager.validate(v7Ids)).to.eql(v7Ids);
+      expect(manager.set(["a", v7Ids[0]])).to.be.true;
+      expect(manager.getKeyFor(v7Ids[0])).to.equal("a");
+      expect(manager.restore([["b", v7Ids[1]]])).to.be.true;
+      expect(manager.entries()).to.eql([["b", v7Ids[1]]]);
+    });
+  });
+
   describe(`UIDManager.deleteUID`, () => {
     it(`should delete a key/value uid association for a given uid and return true on success`, () => {
       const manager = UIDManager();
@@ -320,6 +452,1532 @@ describe(`UIDManager.ts`, () => {
     });
   });
 
+  describe(`UIDManager reverse lookups`, () => {
+    it(`should stay in sync with direct edits through getMap`, () => {
+      const manager = UIDManager();
+      const map = manager.getMap();
+      map.set("a", validIds[0] as UID);
+      expect(manager.getKeyFor(validIds[0])).to.equal("a");
+      expect(manager.hasKeyFor(validIds[0])).to.be.true;
+      map.delete("a");
+      expect(manager.hasKeyFor(validIds[0])).to.be.false;
+      map.set("b", validIds[1] as UID);
+      map.clear();
+      expect(manager.getKeyFor(validIds[1])).to.be.undefined;
+    });
+
+    it(`should reject a uid that was generated before, even once deleted`, () => {
+      const manager = UIDManager();
+      const id = manager.generateUIDFor("a") as string;
+      manager.deleteUID(id);
+      expect(manager.set(["b", id])).to.be.false;
+    });
+
+    it(`should look up UIDs through the reverse index`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const uids = Array(1_000)
+        .fill(0)
+        .map((_, i) => manager.generateUIDFor(i) as string);
+      const map = manager.getMap();
+      const scans = ["entries", "keys", "values", "forEach", Symbol.iterator];
+      scans.forEach((name) => {
+        Object.defineProperty(map, name, {
+          value: () => {
+            throw new Error(`Scanned the map with ${String(name)}.`);
+          },
+          configurable: true,
+        });
+      });
+      try {
+        uids.forEach((id, i) => {
+          expect(manager.getKeyFor(id)).to.equal(i);
+          expect(manager.hasKeyFor(id)).to.be.true;
+        });
+        expect(manager.set([`a`, uids[0]])).to.be.false;
+        expect(manager.set([`a`, validIds[0]])).to.be.true;
+        expect(map.keyFor(validIds[0])).to.equal(`a`);
+        expect(manager.deleteUID(validIds[0])).to.be.true;
+        expect(map.hasUID(validIds[0])).to.be.false;
+        expect(manager.getKeyFor(validIds[0])).to.be.undefined;
+      } finally {
+        scans.forEach((name) => Reflect.deleteProperty(map, name));
+      }
+      expect(manager.size).to.equal(uids.length);
+    });
+  });
+
+  describe(`UIDManager.getRandomSource`, () => {
+    it(`should return the name of the random source in use`, () => {
+      const manager = UIDManager({ strict: true });
+      expect(manager.getRandomSource()).to.be.oneOf([
+        "web-crypto",
+        "node-webcrypto",
+        "node-crypto",
+      ]);
+    });
+  });
+
+  describe(`UIDManager random option`, () => {
+    it(`should generate the same uids for the same seed`, () => {
+      const a = UIDManager({ random: seededRandom(5) });
+      const b = UIDManager({ random: seededRandom(5) });
+      const uidsA = validKeys.map(a.generateUIDFor);
+      const uidsB = validKeys.map(b.generateUIDFor);
+      expect(uidsA).to.eql(uidsB);
+      expect(a.getRandomSource()).to.equal("seeded");
+    });
+  });
+
+  describe(`UIDManager retention`, () => {
+    it(`should release deleted uids with the live policy`, () => {
+      const manager = UIDManager({ retention: { type: "live" } });
+      const a = manager.generateUIDFor("a") as string;
+      const b = manager.generateUIDFor("b") as string;
+      manager.generateUIDFor("c");
+      manager.deleteUID(a);
+      manager.deleteUIDFor("b");
+      expect(manager.set(["a", a])).to.be.true;
+      expect(manager.set(["b", b])).to.be.true;
+      manager.deleteAll();
+      expect(manager.set(["a", a])).to.be.true;
+    });
+
+    it(`should release replaced uids with the live policy`, () => {
+      const manager = UIDManager({
+        namespace: NAMESPACES.URL,
+        retention: { type: "live" },
+      });
+      const a = manager.generateUIDFor("a") as string;
+      manager.set(["a", validIds[0]]);
+      expect(manager.set(["b", a])).to.be.true;
+      manager.deriveUIDFor("b");
+      expect(manager.set(["c", a])).to.be.true;
+    });
+
+    it(`should keep rejecting deleted uids with the default policy`, () => {
+      const manager = UIDManager();
+      const a = manager.generateUIDFor("a") as string;
+      manager.deleteAll();
+      expect(manager.set(["a", a])).to.be.false;
+    });
+  });
+
+  describe(`UIDManager.retireUID`, () => {
+    it(`should delete the association and never accept the uid again`, () => {
+      const manager = UIDManager({ retention: { type: "live" } });
+      const a = manager.generateUIDFor("a") as string;
+      expect(manager.retireUID(a.toUpperCase())).to.be.true;
+      expect(manager.hasUIDFor("a")).to.be.false;
+      expect(manager.set(["a", a])).to.be.false;
+      expect(manager.retireUID("not-a-uid")).to.be.false;
+    });
+  });
+
+  describe(`UIDManager.forgetUID`, () => {
+    it(`should let a previously generated uid be set again`, () => {
+      const manager = UIDManager();
+      const a = manager.generateUIDFor("a") as string;
+      manager.deleteUID(a);
+      expect(manager.forgetUID(a)).to.be.true;
+      expect(manager.set(["b", a])).to.be.true;
+    });
+  });
+
+  describe(`UIDManager error modes`, () => {
+    it(`should reject invalid uids in set and restore`, () => {
+      const manager = UIDManager();
+      expect(manager.set(["a", "not-a-uid"])).to.be.false;
+      expect(manager.restore([["a", "not-a-uid"]])).to.be.false;
+      expect(manager.entries()).to.be.empty;
+    });
+
+    it(`should throw typed errors in throw mode`, () => {
+      const manager = UIDManager<any, string, "throw">({ errors: "throw" });
+      expect(() => manager.generateUIDFor(null)).to.throw(InvalidKeyError);
+      expect(() => manager.set(["a", "nope"])).to.throw(InvalidUIDError);
+      const id = manager.generateUIDFor("a");
+      expect(() => manager.set(["b", id])).to.throw(DuplicateUIDError);
+      try {
+        manager.restore([
+          ["a", validIds[0]],
+          ["b", validIds[1]],
+          ["c", validIds[0]],
+        ]);
+        expect.fail();
+      } catch (e) {
+        expect(e).to.be.instanceOf(DuplicateUIDError);
+        expect((e as DuplicateUIDError).index).to.equal(2);
+        expect((e as DuplicateUIDError).entry).to.eql(["c", validIds[0]]);
+      }
+      try {
+        manager.restore([
+          ["a", validIds[0]],
+          [NaN, validIds[1]],
+        ]);
+        expect.fail();
+      } catch (e) {
+        expect(e).to.be.instanceOf(InvalidKeyError);
+        expect((e as InvalidKeyError).index).to.equal(1);
+      }
+      expect(manager.entries()).to.eql([["a", id]]);
+    });
+
+    it(`should return plain values on success in throw mode`, () => {
+      const manager = UIDManager<string, string, "throw">({ errors: "throw" });
+      const id: UID = manager.generateUIDFor("a");
+      expect(manager.getKeyFor(id)).to.equal("a");
+      expect(manager.deleteUID(validIds[0])).to.be.false;
+    });
+
+    it(`should return result objects in result mode`, () => {
+      const manager = UIDManager<string, string, "result">({
+        errors: "result",
+      });
+      const ok = manager.generateUIDFor("a");
+      expect(ok.ok).to.be.true;
+      expect(ok.error).to.be.undefined;
+      expect(manager.getUIDFor("a")).to.equal(ok.value);
+
+      const failed = manager.set(["b", "nope"]);
+      expect(failed.ok).to.be.false;
+      expect(failed.value).to.be.undefined;
+      expect(failed.error).to.be.instanceOf(InvalidUIDError);
+      expect((failed.error as InvalidUIDError).entry).to.eql(["b", "nope"]);
+    });
+
+    it(`should throw for an unknown error mode`, () => {
+      expect(() => UIDManager({ errors: "nope" as any })).to.throw();
+    });
+  });
+
+  describe(`UIDManager logger`, () => {
+    it(`should send errors to a custom sink in log mode`, () => {
+      const events: LogEvent[] = [];
+      const manager = UIDManager({ logger: (e) => events.push(e) });
+      expect(manager.set(["a", "nope"])).to.be.false;
+      expect(events).to.have.lengthOf(1);
+      const [e] = events;
+      expect(e.level).to.equal("error");
+      expect(e.operation).to.equal("UIDManager.set");
+      expect(e.key).to.equal("a");
+      expect(e.uid).to.equal("nope");
+      expect(e.error).to.be.instanceOf(InvalidUIDError);
+    });
+
+    it(`should trace every mutation at the debug level`, () => {
+      const events: LogEvent[] = [];
+      const manager = UIDManager({
+        logger: (e) => events.push(e),
+        logLevel: "debug",
+        namespace: NAMESPACES.URL,
+      });
+      const id = manager.generateUIDFor("a") as string;
+      manager.deriveUIDFor("b");
+      manager.set(["c", validIds[0]]);
+      manager.deleteUID(id);
+      manager.deleteUIDFor("b");
+      manager.restore([["d", validIds[1]]]);
+      manager.retireUID(validIds[1]);
+      manager.forgetUID(validIds[1]);
+      manager.deleteAll();
+      expect(events.map((e) => e.operation)).to.eql([
+        "UIDManager.generateUIDFor",
+        "UIDManager.deriveUIDFor",
+        "UIDManager.set",
+        "UIDManager.deleteUID",
+        "UIDManager.deleteUIDFor",
+        "UIDManager.restore",
+        "UIDManager.retireUID",
+        "UIDManager.forgetUID",
+        "UIDManager.deleteAll",
+      ]);
+      expect(events.every((e) => e.level === "debug")).to.be.true;
+      expect(events[0].key).to.equal("a");
+      expect(events[0].uid).to.equal(id);
+    });
+
+    it(`should complete operations when the sink throws`, () => {
+      const manager = UIDManager({
+        logger: (e) => {
+          if (e.level === "debug") throw new Error("boom");
+        },
+        logLevel: "debug",
+      });
+      const events: unknown[] = [];
+      manager.on("generate", (e) => events.push(e));
+      const id = manager.generateUIDFor("a");
+      expect(id).to.be.a("string");
+      expect(manager.getUIDFor("a")).to.equal(id);
+      expect(manager.size).to.equal(1);
+      expect(events).to.have.lengthOf(1);
+    });
+
+    it(`should not trace mutations at the default level`, () => {
+      const events: LogEvent[] = [];
+      const manager = UIDManager({ logger: (e) => events.push(e) });
+      manager.generateUIDFor("a");
+      manager.deleteAll();
+      expect(events).to.be.empty;
+    });
+
+    it(`should send nothing when silent`, () => {
+      const calls: unknown[] = [];
+      const { groupCollapsed } = console;
+      console.groupCollapsed = (...args: unknown[]) => calls.push(args);
+      try {
+        const manager = UIDManager({ logger: "silent" });
+        expect(manager.set(["a", "nope"])).to.be.false;
+      } finally {
+        console.groupCollapsed = groupCollapsed;
+      }
+      expect(calls).to.be.empty;
+    });
+  });
+
+  describe(`UIDManager.subscribe`, () => {
+    it(`should emit an event with the key, old UID, and new UID for each change`, () => {
+      const manager = UIDManager<string>();
+      const events: ChangeEvent<string>[] = [];
+      manager.subscribe((e) => events.push(e));
+      const first = manager.generateUIDFor("a") as string;
+      const second = manager.generateUIDFor("a") as string;
+      manager.set(["b", validIds[0]]);
+      manager.deleteUIDFor("a");
+      manager.deleteUID(validIds[0]);
+      expect(events).to.eql([
+        { type: "generate", key: "a", oldUID: undefined, newUID: first },
+        { type: "regenerate", key: "a", oldUID: first, newUID: second },
+        { type: "set", key: "b", oldUID: undefined, newUID: validIds[0] },
+        { type: "delete", key: "a", oldUID: second, newUID: undefined },
+        { type: "delete", key: "b", oldUID: validIds[0], newUID: undefined },
+      ]);
+    });
+
+    it(`should emit one event per entry for deleteAll and restore`, () => {
+      const manager = UIDManager<string>();
+      manager.set(["a", validIds[0]]);
+      manager.set(["b", validIds[1]]);
+      const events: ChangeEvent<string>[] = [];
+      manager.subscribe((e) => events.push(e));
+      manager.restore([
+        ["a", validIds[2]],
+        ["c", validIds[3]],
+      ]);
+      expect(events).to.eql([
+        { type: "restore", key: "b", oldUID: validIds[1], newUID: undefined },
+        { type: "restore", key: "a", oldUID: validIds[0], newUID: validIds[2] },
+        { type: "restore", key: "c", oldUID: undefined, newUID: validIds[3] },
+      ]);
+      events.length = 0;
+      manager.deleteAll();
+      expect(events.map((e) => [e.type, e.key, e.oldUID])).to.eql([
+        ["clear", "a", validIds[2]],
+        ["clear", "c", validIds[3]],
+      ]);
+    });
+
+    it(`should not emit events for failed changes`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const events: ChangeEvent[] = [];
+      manager.subscribe((e) => events.push(e));
+      manager.set(["a", "nope"]);
+      manager.generateUIDFor(undefined);
+      manager.deleteUID(validIds[0]);
+      expect(events).to.be.empty;
+    });
+
+    it(`should batch events when requested`, async () => {
+      const manager = UIDManager();
+      const batches: ChangeEvent[][] = [];
+      manager.subscribe((e) => batches.push(e), { batch: true });
+      validKeys.forEach(manager.generateUIDFor);
+      manager.deleteAll();
+      await Promise.resolve();
+      expect(batches).to.have.lengthOf(1);
+      expect(batches[0]).to.have.lengthOf(validKeys.length * 2);
+    });
+
+    it(`should keep the map intact when a listener throws`, () => {
+      const errors: LogEvent[] = [];
+      const manager = UIDManager<string, string, "throw">({
+        errors: "throw",
+        logger: (e) => errors.push(e),
+      });
+      manager.subscribe(() => {
+        throw new Error("boom");
+      });
+      const id = manager.generateUIDFor("a");
+      expect(manager.getKeyFor(id)).to.equal("a");
+      expect(manager.entries()).to.eql([["a", id]]);
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0].operation).to.equal("UIDManager.subscribe");
+    });
+
+    it(`should stop emitting after unsubscribing`, () => {
+      const manager = UIDManager();
+      const events: ChangeEvent[] = [];
+      const unsubscribe = manager.subscribe((e) => events.push(e));
+      manager.generateUIDFor("a");
+      unsubscribe();
+      manager.generateUIDFor("b");
+      expect(events).to.have.lengthOf(1);
+    });
+  });
+
+  describe(`UIDManager.on`, () => {
+    it(`should only emit events of the given type`, () => {
+      const manager = UIDManager();
+      const events: ChangeEvent[] = [];
+      const off = manager.on("delete", (e) => events.push(e));
+      manager.generateUIDFor("a");
+      manager.retireUID(manager.getUIDFor("a") as string);
+      expect(events.map((e) => [e.type, e.key])).to.eql([["delete", "a"]]);
+      off();
+      manager.generateUIDFor("b");
+      manager.deleteUIDFor("b");
+      expect(events).to.have.lengthOf(1);
+    });
+  });
+
+  describe(`UIDManager.exportSnapshot`, () => {
+    it(`should export entries, history, version, and settings as JSON`, () => {
+      const manager = UIDManager({
+        version: 7,
+        retention: { type: "lru", max: 10 },
+        namespace: NAMESPACES.URL,
+      });
+      const id = manager.generateUIDFor("a") as string;
+      manager.retireUID(validIds[0]);
+      const snapshot = manager.exportSnapshot();
+      expect(JSON.parse(JSON.stringify(snapshot))).to.eql(snapshot);
+      expect(snapshot?.version).to.equal(SNAPSHOT_VERSION);
+      expect(snapshot?.uidVersion).to.equal(7);
+      expect(snapshot?.settings).to.eql({
+        retention: { type: "lru", max: 10 },
+        namespace: NAMESPACES.URL,
+      });
+      expect(snapshot?.entries).to.eql([["a", id]]);
+      expect(snapshot?.history.uids.map(([v]) => v)).to.eql([id]);
+      expect(snapshot?.history.retired).to.eql([validIds[0]]);
+    });
+
+    it(`should fail for keys that can not be serialized`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      manager.generateUIDFor(Symbol("a"));
+      expect(manager.exportSnapshot()).to.be.null;
+    });
+
+    it(`should encode keys with a codec`, () => {
+      const users = [{ id: 1 }, { id: 2 }];
+      const codec = byId<{ id: number }>("id", (v) =>
+        users.find((u) => u.id === v),
+      );
+      const manager = UIDManager<{ id: number }>();
+      users.forEach(manager.generateUIDFor);
+      const snapshot = manager.exportSnapshot({ codec });
+      expect(snapshot?.entries.map(([k]) => k)).to.eql([1, 2]);
+    });
+  });
+
+  describe(`UIDManager.importSnapshot`, () => {
+    it(`should restore entries and keys through a JSON round trip`, () => {
+      const users = [{ id: 1 }, { id: 2 }];
+      const codec = byId<{ id: number }>("id", (v) =>
+        users.find((u) => u.id === v),
+      );
+      const source = UIDManager<{ id: number }>();
+      users.forEach(source.generateUIDFor);
+      const json = JSON.stringify(source.exportSnapshot({ codec }));
+
+      const target = UIDManager<{ id: number }>();
+      expect(target.importSnapshot(JSON.parse(json), { codec })).to.be.true;
+      expect(target.entries()).to.eql(source.entries());
+      expect(target.getUIDFor(users[0])).to.equal(source.getUIDFor(users[0]));
+    });
+
+    it(`should restore the history so issued UIDs are never reissued`, () => {
+      const source = UIDManager();
+      const id = source.generateUIDFor("a") as string;
+      source.deleteUIDFor("a");
+      source.retireUID(validIds[0]);
+      const target = UIDManager({ logger: "silent" });
+      target.importSnapshot(source.exportSnapshot());
+      expect(target.entries()).to.be.empty;
+      expect(target.set(["b", id])).to.be.false;
+      expect(target.set(["b", validIds[0]])).to.be.false;
+    });
+
+    it(`should import plain entry arrays as version 0 snapshots`, () => {
+      const manager = UIDManager();
+      const entries: [string, string][] = [["a", validIds[0]]];
+      expect(manager.importSnapshot(entries)).to.be.true;
+      expect(manager.entries()).to.eql(entries);
+    });
+
+    it(`should leave the manager untouched if the snapshot is invalid`, () => {
+      const manager = UIDManager<string, string, "throw">({ errors: "throw" });
+      const id = manager.generateUIDFor("a");
+      const snapshot = manager.exportSnapshot();
+      const bad = [
+        { ...snapshot, version: SNAPSHOT_VERSION + 1 },
+        { ...snapshot, entries: [["b", "nope"]] },
+        { ...snapshot, entries: [[null, validIds[0]]] },
+        { ...snapshot, history: { uids: [["nope", 1]], retired: [] } },
+      ];
+      const errors = [
+        InvalidSnapshotError,
+        InvalidUIDError,
+        InvalidKeyError,
+        InvalidUIDError,
+      ];
+      bad.forEach((s, i) => {
+        expect(() => manager.importSnapshot(s)).to.throw(errors[i]);
+      });
+      expect(manager.entries()).to.eql([["a", id]]);
+    });
+
+    it(`should emit restore events`, () => {
+      const manager = UIDManager();
+      const events: ChangeEvent[] = [];
+      manager.subscribe((e) => events.push(e));
+      manager.importSnapshot([["a", validIds[0]]]);
+      expect(events.map((e) => [e.type, e.key, e.newUID])).to.eql([
+        ["restore", "a", validIds[0]],
+      ]);
+    });
+  });
+
+  describe(`UIDManager storage`, () => {
+    it(`should write changes through and hydrate a new manager`, async () => {
+      const adapter = memoryAdapter();
+      const storage = { adapter, autosave: "write-through" as const };
+      const manager = UIDManager({ storage });
+      const id = manager.generateUIDFor("a");
+      const deleted = manager.generateUIDFor("b") as string;
+      manager.set(["c", validIds[0]]);
+      manager.deleteUIDFor("b");
+      await manager.flush();
+
+      const restored = UIDManager({ storage, logger: "silent" });
+      expect(restored.entries()).to.eql([
+        ["a", id],
+        ["c", validIds[0]],
+      ]);
+      expect(restored.set(["d", deleted])).to.be.false;
+    });
+
+    it(`should debounce writes until flushed`, async () => {
+      const adapter = memoryAdapter();
+      const manager = UIDManager({ storage: { adapter, delay: 1000 } });
+      manager.generateUIDFor("a");
+      await Promise.resolve();
+      expect(adapter.read("current")).to.be.undefined;
+      await manager.flush();
+      expect(UIDManager({ storage: { adapter } }).keys()).to.eql(["a"]);
+    });
+
+    it(`should persist retired and forgotten UIDs`, async () => {
+      const adapter = memoryAdapter();
+      const manager = UIDManager({ storage: { adapter, autosave: "off" } });
+      manager.retireUID(validIds[0]);
+      await manager.flush();
+      const restored = UIDManager({ storage: { adapter }, logger: "silent" });
+      expect(restored.set(["a", validIds[0]])).to.be.false;
+    });
+
+    it(`should encode keys with the storage codec`, async () => {
+      const users = [{ id: 1 }];
+      const codec = byId<{ id: number }>("id", (v) =>
+        users.find((u) => u.id === v),
+      );
+      const adapter = memoryAdapter();
+      const storage = { adapter, codec };
+      const manager = UIDManager<{ id: number }>({ storage });
+      const id = manager.generateUIDFor(users[0]);
+      await manager.flush();
+      const restored = UIDManager<{ id: number }>({ storage });
+      expect(restored.getUIDFor(users[0])).to.equal(id);
+    });
+
+    it(`should fall back to the last good snapshot`, async () => {
+      const adapter = memoryAdapter();
+      const storage = { adapter, autosave: "write-through" as const };
+      const manager = UIDManager({ storage });
+      manager.generateUIDFor("a");
+      await manager.flush();
+      manager.generateUIDFor("b");
+      await manager.flush();
+      adapter.write("current", "{ truncated");
+
+      const events: LogEvent[] = [];
+      const restored = UIDManager({ storage, logger: (e) => events.push(e) });
+      expect(restored.keys()).to.eql(["a"]);
+      expect(events.map((e) => e.level)).to.eql(["warn"]);
+    });
+
+    it(`should not emit restore events while hydrating`, async () => {
+      const adapter = memoryAdapter();
+      const manager = UIDManager({ storage: { adapter } });
+      manager.generateUIDFor("a");
+      await manager.flush();
+      const writes: string[] = [];
+      const spy: StorageAdapter = {
+        ...adapter,
+        write: (slot, data) => {
+          writes.push(slot);
+          return adapter.write(slot, data);
+        },
+      };
+      const restored = UIDManager({ storage: { adapter: spy } });
+      await restored.flush();
+      expect(writes).to.be.empty;
+    });
+
+    it(`should require UIDManagerAsync for asynchronous adapters`, async () => {
+      const adapter = memoryAdapter();
+      const manager = UIDManager({ storage: { adapter } });
+      manager.generateUIDFor("a");
+      await manager.flush();
+      const async: StorageAdapter = {
+        name: "async",
+        read: async (slot) => adapter.read(slot),
+        write: async (slot, data) => adapter.write(slot, data),
+      };
+      expect(() => UIDManager({ storage: { adapter: async } })).to.throw(
+        /UIDManagerAsync/,
+      );
+      const restored = await UIDManagerAsync({ storage: { adapter: async } });
+      expect(restored.keys()).to.eql(["a"]);
+      expect((await UIDManagerAsync()).keys()).to.be.empty;
+    });
+  });
+
+  describe(`UIDManager weak mode`, () => {
+    it(`should associate object keys and reject primitive keys`, () => {
+      const manager = UIDManager<object, string, "throw">({
+        weak: true,
+        errors: "throw",
+      });
+      const key = {};
+      const id = manager.generateUIDFor(key);
+      expect(manager.getKeyFor(id)).to.equal(key);
+      expect(manager.entries()).to.eql([[key, id]]);
+      expect(() => manager.generateUIDFor("a" as any)).to.throw(
+        InvalidKeyError,
+      );
+      expect(() => manager.set([1 as any, validIds[0]])).to.throw(
+        InvalidKeyError,
+      );
+      expect(manager.deleteUIDFor(key)).to.be.true;
+      expect(manager.getMap().size).to.equal(0);
+    });
+
+    it(`should release the UID and call onCollect when a key is collected`, async () => {
+      const collected: string[] = [];
+      const manager = UIDManager({
+        weak: true,
+        retention: { type: "live" },
+        onCollect: (uid) => collected.push(uid),
+      });
+      const kept = {};
+      manager.generateUIDFor(kept);
+      const id = (() => manager.generateUIDFor({}) as string)();
+      await collectGarbage(() => collected.length > 0);
+      expect(collected).to.eql([id]);
+      expect(manager.hasKeyFor(id)).to.be.false;
+      expect(manager.keys()).to.eql([kept]);
+      expect(manager.set([{}, id])).to.be.true;
+    });
+  });
+
+  describe(`UIDManager.namespace`, () => {
+    it(`should keep a separate map per namespace`, () => {
+      const manager = UIDManager();
+      const users = manager.namespace("users");
+      const a = manager.generateUIDFor("a");
+      const b = users.generateUIDFor("a");
+      expect(a).to.not.equal(b);
+      expect(manager.entries()).to.eql([["a", a]]);
+      expect(users.entries()).to.eql([["a", b]]);
+      expect(manager.namespace("users")).to.equal(users);
+      expect(manager.namespace(DEFAULT_NAMESPACE).entries()).to.eql([["a", a]]);
+      expect(manager.namespaces()).to.eql([DEFAULT_NAMESPACE, "users"]);
+      expect(() => manager.namespace("")).to.throw();
+    });
+
+    it(`should find which namespace holds a UID`, () => {
+      const manager = UIDManager();
+      const users = manager.namespace("users");
+      const a = manager.generateUIDFor("a") as string;
+      const b = users.generateUIDFor("b") as string;
+      expect(users.whichNamespace(a)).to.equal(DEFAULT_NAMESPACE);
+      expect(manager.whichNamespace(b.toUpperCase())).to.equal("users");
+      expect(manager.whichNamespace(validIds[0])).to.be.undefined;
+    });
+
+    it(`should never associate a UID in more than one namespace`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const users = manager.namespace("users");
+      const id = manager.generateUIDFor("a") as string;
+      manager.deleteUIDFor("a");
+      expect(users.set(["a", id])).to.be.false;
+      expect(users.set(["a", validIds[0]])).to.be.true;
+      expect(manager.set(["b", validIds[0]])).to.be.false;
+      expect(manager.restore([["b", validIds[0]]])).to.be.false;
+      expect(manager.entries()).to.be.empty;
+    });
+
+    it(`should delete, restore, and list entries per namespace`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const users = manager.namespace("users");
+      const a = manager.generateUIDFor("a") as string;
+      users.generateUIDFor("b");
+      users.deleteAll();
+      expect(users.entries()).to.be.empty;
+      expect(manager.entries()).to.eql([["a", a]]);
+      expect(users.restore([["c", validIds[0]]])).to.be.true;
+      expect(users.entries()).to.eql([["c", validIds[0]]]);
+      expect(manager.entries()).to.eql([["a", a]]);
+      expect(users.set(["d", a])).to.be.false;
+    });
+
+    it(`should retire UIDs held by any namespace`, () => {
+      const manager = UIDManager();
+      const users = manager.namespace("users");
+      const events: ChangeEvent[] = [];
+      users.on("delete", (e) => events.push(e));
+      const id = users.generateUIDFor("a") as string;
+      expect(manager.retireUID(id)).to.be.true;
+      expect(users.entries()).to.be.empty;
+      expect(events.map((e) => [e.key, e.oldUID])).to.eql([["a", id]]);
+    });
+
+    it(`should export and import every namespace`, () => {
+      const source = UIDManager();
+      const a = source.generateUIDFor("a");
+      const b = source.namespace("users").generateUIDFor("b");
+      source.namespace("empty");
+      const snapshot = JSON.parse(JSON.stringify(source.exportSnapshot()));
+      expect(snapshot.entries).to.eql([["a", a]]);
+      expect(snapshot.namespaces).to.eql({ users: [["b", b]], empty: [] });
+
+      const target = UIDManager();
+      target.namespace("stale").generateUIDFor("c");
+      expect(target.importSnapshot(snapshot)).to.be.true;
+      expect(target.entries()).to.eql([["a", a]]);
+      expect(target.namespace("users").entries()).to.eql([["b", b]]);
+      expect(target.namespace("stale").entries()).to.be.empty;
+      expect(target.namespaces()).to.include.members(["users", "empty"]);
+    });
+
+    it(`should export and import a single namespace`, () => {
+      const source = UIDManager();
+      source.generateUIDFor("a");
+      const users = source.namespace("users");
+      const b = users.generateUIDFor("b");
+      const snapshot = users.exportSnapshot();
+      expect(snapshot?.entries).to.eql([["b", b]]);
+      expect(snapshot?.namespaces).to.eql({});
+
+      const target = UIDManager({ logger: "silent" });
+      const c = target.generateUIDFor("c");
+      expect(target.namespace("users").importSnapshot(snapshot)).to.be.true;
+      expect(target.namespace("users").entries()).to.eql([["b", b]]);
+      expect(target.entries()).to.eql([["c", c]]);
+      expect(target.set(["d", b as string])).to.be.false;
+      const clash = { ...snapshot, entries: [["x", c]] };
+      expect(target.namespace("users").importSnapshot(clash)).to.be.false;
+    });
+
+    it(`should persist namespaces to storage`, async () => {
+      const storage = { adapter: memoryAdapter(), autosave: "off" as const };
+      const manager = UIDManager({ storage });
+      const id = manager.namespace("users").generateUIDFor("a");
+      await manager.flush();
+      const restored = UIDManager({ storage });
+      expect(restored.namespace("users").entries()).to.eql([["a", id]]);
+    });
+  });
+
+  describe(`UIDManager rotation`, () => {
+    it(`should resolve superseded UIDs and list the history`, () => {
+      let now = 1000;
+      const manager = UIDManager({ rotation: true, clock: () => now });
+      const first = manager.generateUIDFor("a") as string;
+      now = 2000;
+      const second = manager.generateUIDFor("a") as string;
+      now = 3000;
+      manager.set(["a", validIds[0]]);
+      expect(manager.getKeyFor(first)).to.equal("a");
+      expect(manager.hasKeyFor(second)).to.be.true;
+      expect(manager.getKeyFor(first, { detailed: true })).to.eql({
+        key: "a",
+        superseded: true,
+        current: validIds[0],
+      });
+      expect(manager.getKeyFor(validIds[0], { detailed: true })).to.eql({
+        key: "a",
+        superseded: false,
+        current: validIds[0],
+      });
+      expect(manager.getKeyFor(validIds[1], { detailed: true })).to.be
+        .undefined;
+      expect(manager.historyFor("a")).to.eql([
+        { uid: first, supersededAt: 2000 },
+        { uid: second, supersededAt: 3000 },
+      ]);
+    });
+
+    it(`should never reissue superseded UIDs`, () => {
+      const manager = UIDManager({
+        rotation: true,
+        retention: { type: "live" },
+        logger: "silent",
+      });
+      const first = manager.generateUIDFor("a") as string;
+      manager.generateUIDFor("a");
+      expect(manager.set(["b", first])).to.be.false;
+      expect(manager.whichNamespace(first)).to.equal(DEFAULT_NAMESPACE);
+    });
+
+    it(`should not restore or import retired UIDs`, () => {
+      const manager = UIDManager({ rotation: true, logger: "silent" });
+      const first = manager.generateUIDFor("a") as string;
+      manager.generateUIDFor("a");
+      manager.deleteUIDFor("a");
+      expect(manager.restore([["b", first.toUpperCase()]])).to.be.false;
+      expect(manager.namespace("n").restore([["b", first]])).to.be.false;
+      const snapshot = UIDManager().exportSnapshot();
+      const entries: [string, string][] = [["b", first]];
+      expect(manager.importSnapshot({ ...snapshot, entries })).to.be.false;
+      expect(manager.getKeyFor(first)).to.be.undefined;
+      expect(manager.restore([["b", validIds[0]]])).to.be.true;
+    });
+
+    it(`should not track rotations unless enabled`, () => {
+      const manager = UIDManager();
+      const first = manager.generateUIDFor("a") as string;
+      manager.generateUIDFor("a");
+      expect(manager.getKeyFor(first)).to.be.undefined;
+      expect(manager.historyFor("a")).to.be.empty;
+    });
+
+    it(`should drop the history when the association is deleted`, () => {
+      const manager = UIDManager({ rotation: true });
+      const first = manager.generateUIDFor("a") as string;
+      manager.generateUIDFor("a");
+      manager.deleteUIDFor("a");
+      expect(manager.historyFor("a")).to.be.empty;
+      expect(manager.getKeyFor(first)).to.be.undefined;
+    });
+
+    it(`should keep the history of each key separate`, () => {
+      const manager = UIDManager({ rotation: true, logger: "silent" });
+      const a = manager.generateUIDFor("a") as string;
+      const b = manager.generateUIDFor("b") as string;
+      manager.generateUIDFor("a");
+      manager.generateUIDFor("b");
+      manager.addAlias("b", validIds[0]);
+      manager.deleteUIDFor("a");
+      expect(manager.historyFor("a")).to.be.empty;
+      expect(manager.historyFor("b").map(({ uid }) => uid)).to.eql([b]);
+      expect(manager.aliasesFor("b")).to.eql([validIds[0]]);
+      expect(manager.getKeyFor(a)).to.be.undefined;
+      expect(manager.getKeyFor(b)).to.equal("b");
+      const result = manager.transaction((tx) => {
+        tx.deleteUIDFor("b");
+        tx.set(["c", "nope"]);
+      });
+      expect(result).to.be.null;
+      expect(manager.historyFor("b").map(({ uid }) => uid)).to.eql([b]);
+      expect(manager.aliasesFor("b")).to.eql([validIds[0]]);
+    });
+
+    it(`should reject rotation in weak mode`, () => {
+      expect(() => UIDManager({ rotation: true, weak: true })).to.throw();
+    });
+  });
+
+  describe(`UIDManager.addAlias`, () => {
+    it(`should let a key answer to several UIDs`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const id = manager.generateUIDFor("a");
+      expect(manager.addAlias("a", validIds[0].toUpperCase())).to.be.true;
+      expect(manager.getKeyFor(validIds[0])).to.equal("a");
+      expect(manager.getKeyFor(validIds[0], { detailed: true })).to.eql({
+        key: "a",
+        superseded: false,
+        current: id,
+      });
+      expect(manager.aliasesFor("a")).to.eql([validIds[0]]);
+      expect(manager.getUIDFor("a")).to.equal(id);
+      expect(manager.set(["b", validIds[0]])).to.be.false;
+    });
+
+    it(`should fail for unassociated keys and taken UIDs`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const id = manager.generateUIDFor("a") as string;
+      manager.generateUIDFor("b");
+      expect(manager.addAlias("c", validIds[0])).to.be.false;
+      expect(manager.addAlias("b", id)).to.be.false;
+      expect(manager.addAlias("b", "nope")).to.be.false;
+      manager.addAlias("a", validIds[0]);
+      expect(manager.namespace("x").addAlias("b", validIds[0])).to.be.false;
+    });
+
+    it(`should remove aliases`, () => {
+      const manager = UIDManager();
+      manager.generateUIDFor("a");
+      manager.addAlias("a", validIds[0]);
+      manager.addAlias("a", validIds[1]);
+      expect(manager.removeAlias(validIds[0])).to.be.true;
+      expect(manager.removeAlias(validIds[0])).to.be.false;
+      expect(manager.retireUID(validIds[1])).to.be.true;
+      expect(manager.aliasesFor("a")).to.be.empty;
+      expect(manager.getUIDFor("a")).to.not.be.undefined;
+      manager.addAlias("a", validIds[2]);
+      manager.deleteUIDFor("a");
+      expect(manager.getKeyFor(validIds[2])).to.be.undefined;
+    });
+
+    it(`should keep aliases and rotations in snapshots`, () => {
+      const source = UIDManager({ rotation: true });
+      const first = source.generateUIDFor("a") as string;
+      source.generateUIDFor("a");
+      source.addAlias("a", validIds[0]);
+      const users = source.namespace("users");
+      users.generateUIDFor("b");
+      users.addAlias("b", validIds[1]);
+      const snapshot = JSON.parse(JSON.stringify(source.exportSnapshot()));
+      expect(snapshot.links).to.have.length(3);
+
+      const target = UIDManager({ rotation: true, logger: "silent" });
+      expect(target.importSnapshot(snapshot)).to.be.true;
+      expect(target.getKeyFor(first, { detailed: true })?.superseded).to.be
+        .true;
+      expect(target.aliasesFor("a")).to.eql([validIds[0]]);
+      expect(target.namespace("users").getKeyFor(validIds[1])).to.equal("b");
+      expect(target.set(["c", first])).to.be.false;
+
+      const clash = { ...snapshot, links: [...snapshot.links] };
+      clash.links.push({ ...clash.links[0], namespace: "users" });
+      expect(target.importSnapshot(clash)).to.be.false;
+    });
+  });
+
+  describe(`UIDManager.transaction`, () => {
+    it(`should apply every operation and return the result`, () => {
+      const manager = UIDManager();
+      const events: ChangeEvent[] = [];
+      manager.subscribe((e) => events.push(e));
+      const id = manager.transaction((tx) => {
+        tx.set(["a", validIds[0]]);
+        const uid = tx.generateUIDFor("b");
+        expect(events).to.be.empty;
+        return uid;
+      });
+      expect(manager.getUIDFor("b")).to.equal(id);
+      expect(manager.getUIDFor("a")).to.equal(validIds[0]);
+      expect(events.map((e) => e.type)).to.eql(["set", "generate"]);
+    });
+
+    it(`should roll back the map and history if anything fails`, () => {
+      const manager = UIDManager({
+        retention: { type: "live" },
+        logger: "silent",
+      });
+      const a = manager.generateUIDFor("a");
+      const events: ChangeEvent[] = [];
+      manager.subscribe((e) => events.push(e));
+      let generated = "";
+      const result = manager.transaction((tx) => {
+        tx.deleteUIDFor("a");
+        generated = tx.generateUIDFor("b") as string;
+        tx.set(["c", "nope"]);
+        return true;
+      });
+      expect(result).to.be.null;
+      expect(manager.entries()).to.eql([["a", a]]);
+      expect(manager.exportSnapshot()?.history.uids.map(([v]) => v)).to.eql([
+        a,
+      ]);
+      expect(manager.set(["d", generated])).to.be.true;
+      expect(events.map((e) => e.type)).to.eql(["set"]);
+    });
+
+    it(`should undo changes to links, expiries, and the history`, () => {
+      let now = 0;
+      const manager = UIDManager({
+        clock: () => now,
+        rotation: true,
+        retention: { type: "lru", max: 3 },
+        logger: "silent",
+      });
+      const first = manager.generateUIDFor("a") as string;
+      const id = manager.generateUIDFor("a", { ttl: 100 }) as string;
+      manager.addAlias("a", validIds[0]);
+      manager.set(["b", validIds[1]]);
+      const before = manager.exportSnapshot();
+      const result = manager.transaction((tx) => {
+        tx.generateUIDFor("a");
+        tx.deleteUIDFor("b");
+        tx.removeAlias(validIds[0]);
+        ["c", "d", "e"].forEach((key) => tx.generateUIDFor(key));
+        tx.set(["f", "nope"]);
+      });
+      expect(result).to.be.null;
+      expect(manager.exportSnapshot()).to.eql(before);
+      expect(manager.historyFor("a").map(({ uid }) => uid)).to.eql([first]);
+      expect(manager.aliasesFor("a")).to.eql([validIds[0]]);
+      now = 100;
+      expect(manager.getKeyFor(id)).to.be.undefined;
+    });
+
+    it(`should roll back if the callback throws`, () => {
+      const manager = UIDManager<string, string, "throw">({ errors: "throw" });
+      const users = manager.namespace("users");
+      expect(() =>
+        manager.transaction(() => {
+          users.generateUIDFor("a");
+          manager.retireUID(validIds[0]);
+          throw new Error("abort");
+        }),
+      ).to.throw("abort");
+      expect(users.entries()).to.be.empty;
+      expect(manager.set(["a", validIds[0]])).to.be.true;
+    });
+
+    it(`should reject asynchronous callbacks`, () => {
+      const manager = UIDManager({ errors: "result" });
+      const result = manager.transaction(async (tx) => tx.generateUIDFor("a"));
+      expect(result.ok).to.be.false;
+      expect(manager.entries()).to.be.empty;
+    });
+  });
+
+  describe(`UIDManager bulk operations`, () => {
+    it(`should set, generate, and delete many entries`, () => {
+      const manager = UIDManager();
+      expect(
+        manager.setMany([
+          ["a", validIds[0]],
+          ["b", validIds[1]],
+        ]),
+      ).to.be.true;
+      const ids = manager.generateUIDsFor(["c", "d"]) as string[];
+      expect(ids).to.have.length(2);
+      expect(manager.getUIDFor("d")).to.equal(ids[1]);
+      expect(manager.deleteMany(["a", "c", "x"])).to.equal(2);
+      expect(manager.keys()).to.eql(["b", "d"]);
+    });
+
+    it(`should change nothing if any entry is invalid`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      const entries: [string, string][] = [
+        ["a", validIds[0]],
+        ["b", validIds[0]],
+      ];
+      expect(manager.setMany(entries)).to.be.false;
+      expect(manager.generateUIDsFor(["c", null])).to.be.null;
+      expect(manager.entries()).to.be.empty;
+      expect(manager.set(["a", validIds[0]])).to.be.true;
+    });
+
+    it(`should unwrap results in result mode`, () => {
+      const manager = UIDManager({ errors: "result" });
+      const result = manager.generateUIDsFor(["a", "b"]);
+      expect(result.ok && result.value).to.eql(manager.uids());
+      expect(manager.deleteMany(["a"])).to.eql({
+        ok: true,
+        value: 1,
+        error: undefined,
+      });
+    });
+  });
+
+  describe(`UIDManager format`, () => {
+    it(`should generate, set, and restore identifiers in the format`, () => {
+      const manager = UIDManager({ format: "base62", logger: "silent" });
+      const id = manager.generateUIDFor("a") as string;
+      expect(manager.validate(id)).to.eql([id]);
+      expect(manager.set(["b", validIds[0]])).to.be.false;
+      const encoded = encode(validIds[0], "base62");
+      expect(manager.set(["b", encoded])).to.be.true;
+      expect(manager.restore([["c", validIds[1]]])).to.be.false;
+      expect(manager.getUIDFor("b")).to.equal(encoded);
+    });
+
+    it(`should normalize ULIDs and keep them unique`, () => {
+      const manager = UIDManager({ format: "ulid", logger: "silent" });
+      const id = manager.generateUIDFor("a") as string;
+      manager.deleteUIDFor("a");
+      expect(manager.set(["b", id.toLowerCase()])).to.be.false;
+      const other = encode(validIds[0], "ulid");
+      expect(manager.set(["b", other.toLowerCase()])).to.be.true;
+      expect(manager.getUIDFor("b")).to.equal(other);
+    });
+
+    it(`should derive encoded UIDs and fail for NanoIDs`, () => {
+      const namespace = NAMESPACES.URL;
+      const base58 = UIDManager({ format: "base58", namespace });
+      const uuid = UIDManager({ namespace }).deriveUIDFor("a") as string;
+      expect(base58.deriveUIDFor("a")).to.equal(encode(uuid, "base58"));
+      const nano = UIDManager({
+        format: "nanoid",
+        namespace,
+        logger: "silent",
+      });
+      expect(nano.deriveUIDFor("a")).to.be.null;
+    });
+
+    it(`should round trip snapshots in the format`, () => {
+      const source = UIDManager({ format: "nanoid" });
+      source.generateUIDFor("a");
+      const snapshot = source.exportSnapshot();
+      expect(snapshot?.settings.format).to.equal("nanoid");
+      const target = UIDManager({ format: "nanoid" });
+      expect(target.importSnapshot(snapshot)).to.be.true;
+      expect(target.entries()).to.eql(source.entries());
+      expect(UIDManager({ logger: "silent" }).importSnapshot(snapshot)).to.be
+        .false;
+    });
+  });
+
+  describe(`UIDManager normalization`, () => {
+    it(`should look up and delete UIDs in any case or alternate form`, () => {
+      const manager = UIDManager();
+      const id = manager.generateUIDFor("a") as string;
+      const forms = [id.toUpperCase(), `{${id}}`, `urn:uuid:${id}`];
+      forms.forEach((form) => {
+        expect(manager.getKeyFor(form)).to.equal("a");
+        expect(manager.hasKeyFor(form)).to.be.true;
+      });
+      expect(manager.hasKeyFor(undefined as any)).to.be.false;
+      expect(manager.deleteUID(id.replace(/-/g, "").toUpperCase())).to.be.true;
+      expect(manager.hasUIDFor("a")).to.be.false;
+    });
+
+    it(`should store UIDs set in alternate forms canonically`, () => {
+      const manager = UIDManager();
+      expect(manager.set(["a", `{${validIds[0].toUpperCase()}}`])).to.be.true;
+      expect(manager.getUIDFor("a")).to.equal(validIds[0]);
+    });
+
+    it(`should normalize lookups in other formats`, () => {
+      const manager = UIDManager({ format: "ulid" });
+      const id = manager.generateUIDFor("a") as string;
+      expect(manager.getKeyFor(id.toLowerCase())).to.equal("a");
+      expect(manager.deleteUID(id.toLowerCase())).to.be.true;
+    });
+  });
+
+  describe(`UIDManager binary UIDs`, () => {
+    it(`should set and look up UIDs given as bytes`, () => {
+      const manager = UIDManager();
+      const bytes = parse(validIds[0].toUpperCase());
+      expect(manager.set(["a", bytes])).to.be.true;
+      expect(manager.getUIDFor("a")).to.equal(validIds[0]);
+      expect(manager.getKeyFor(bytes)).to.equal("a");
+      expect(manager.getKeyFor(parse(validIds[1]))).to.be.undefined;
+      const lookup = manager.getKeyFor(bytes, { detailed: true });
+      expect(lookup?.current).to.equal(validIds[0]);
+    });
+
+    it(`should convert bytes to the configured format`, () => {
+      const manager = UIDManager({ format: "base62" });
+      expect(manager.set(["a", parse(validIds[0])])).to.be.true;
+      expect(manager.getUIDFor("a")).to.equal(encode(validIds[0], "base62"));
+      expect(manager.getKeyFor(parse(validIds[0]))).to.equal("a");
+    });
+
+    it(`should reject bytes that are not a valid UID`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      expect(manager.set(["a", new Uint8Array(15)])).to.be.false;
+      expect(manager.set(["a", new Uint8Array(16)])).to.be.false;
+      const nano = UIDManager({ format: "nanoid", errors: "throw" });
+      const bytes = parse(validIds[0]);
+      expect(() => nano.set(["a", bytes])).to.throw(InvalidUIDError);
+    });
+  });
+
+  describe(`UIDManager expiry`, () => {
+    it(`should hide and remove associations once their ttl has passed`, () => {
+      let now = 0;
+      const events: ChangeEvent[] = [];
+      const manager = UIDManager({ clock: () => now, ttl: 100 });
+      manager.subscribe((event) => events.push(event));
+      const id = manager.generateUIDFor("a") as string;
+      manager.set(["b", validIds[0]], { ttl: 200 });
+      manager.set(["c", validIds[1]], { ttl: Infinity });
+      now = 99;
+      expect(manager.getUIDFor("a")).to.equal(id);
+      now = 100;
+      expect(manager.getUIDFor("a")).to.be.undefined;
+      expect(manager.getKeyFor(id)).to.be.undefined;
+      expect(manager.hasKeyFor(id)).to.be.false;
+      expect(manager.hasUIDFor("b")).to.be.true;
+      now = 200;
+      expect(manager.hasKeyFor(validIds[0])).to.be.false;
+      expect(manager.entries()).to.eql([["c", validIds[1]]]);
+      const expired = events.filter((e) => e.type === "expire");
+      expect(expired.map((e) => [e.key, e.oldUID])).to.eql([
+        ["a", id],
+        ["b", validIds[0]],
+      ]);
+    });
+
+    it(`should ignore the index passed by forEach and map as a ttl`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now, ttl: 100 });
+      const ids = ["a", "b"].map(manager.generateUIDFor);
+      [["c", validIds[0]] as [string, string]].forEach(manager.set);
+      expect(ids.every((id) => typeof id === "string")).to.be.true;
+      expect(manager.getMap().size).to.equal(3);
+      now = 100;
+      expect(manager.getMap().size).to.equal(0);
+    });
+
+    it(`should extend associations on access when sliding`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now, ttl: 100, sliding: true });
+      const id = manager.generateUIDFor("a");
+      manager.generateUIDFor("b");
+      now = 60;
+      expect(manager.getUIDFor("a")).to.equal(id);
+      now = 120;
+      expect(manager.hasUIDFor("a")).to.be.true;
+      expect(manager.hasUIDFor("b")).to.be.false;
+      now = 220;
+      expect(manager.getKeyFor(id as string)).to.be.undefined;
+    });
+
+    it(`should purge expired associations on demand`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now });
+      manager.generateUIDsFor(["a", "b"], { ttl: 10 });
+      manager.namespace("n").generateUIDFor("c", { ttl: 10 });
+      manager.generateUIDFor("d");
+      expect(manager.purgeExpired()).to.equal(0);
+      now = 10;
+      expect(manager.purgeExpired()).to.equal(2);
+      expect(manager.purgeExpired()).to.equal(0);
+      expect(manager.getMap().size).to.equal(1);
+      expect(manager.namespace("n").keys()).to.be.empty;
+    });
+
+    it(`should purge expired associations on a timer`, async () => {
+      let now = 0;
+      const events: ChangeEvent[] = [];
+      const manager = UIDManager({ clock: () => now, purgeInterval: 5 });
+      manager.subscribe((event) => events.push(event));
+      manager.generateUIDFor("a", { ttl: 5 });
+      now = 5;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(manager.clearPurgeInterval()).to.be.true;
+      expect(manager.clearPurgeInterval()).to.be.false;
+      expect(events.map((e) => e.type)).to.eql(["generate", "expire"]);
+    });
+
+    it(`should clear the ttl when a key is given a new uid`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now });
+      manager.set(["a", validIds[0]], { ttl: 10 });
+      manager.set(["a", validIds[1]]);
+      now = 10;
+      expect(manager.getUIDFor("a")).to.equal(validIds[1]);
+    });
+
+    it(`should round trip expiry through snapshots`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now });
+      manager.set(["a", validIds[0]], { ttl: 10 });
+      manager.set(["b", validIds[1]], { ttl: 5 });
+      now = 5;
+      const snapshot = manager.exportSnapshot() as Snapshot;
+      expect(snapshot.expires).to.eql([{ uid: validIds[0], at: 10, ttl: 10 }]);
+      const copy = UIDManager({ clock: () => now });
+      expect(copy.importSnapshot(snapshot)).to.be.true;
+      expect(copy.getUIDFor("a")).to.equal(validIds[0]);
+      now = 10;
+      expect(copy.getUIDFor("a")).to.be.undefined;
+      const orphan = { uid: validIds[2], at: 10, ttl: 10 };
+      const bad = { ...snapshot, expires: [orphan] };
+      expect(() =>
+        UIDManager({ errors: "throw" }).importSnapshot(bad),
+      ).to.throw(InvalidSnapshotError);
+    });
+
+    it(`should reject invalid ttls`, () => {
+      expect(() => UIDManager({ ttl: 0 })).to.throw();
+      expect(() => UIDManager({ purgeInterval: -1 })).to.throw();
+      const manager = UIDManager({ logger: "silent" });
+      expect(manager.generateUIDFor("a", { ttl: -1 })).to.be.null;
+      expect(manager.set(["a", validIds[0]], { ttl: NaN })).to.be.null;
+      expect(manager.entries()).to.be.empty;
+    });
+  });
+
+  describe(`UIDManager iteration`, () => {
+    it(`should iterate [key, uid] entries`, () => {
+      const manager = UIDManager();
+      expect([...manager]).to.eql([]);
+      manager.set(["a", validIds[0]]);
+      manager.namespace("n").set(["b", validIds[1]]);
+      expect([...manager]).to.eql([["a", validIds[0]]]);
+      expect([...manager.namespace("n")]).to.eql([["b", validIds[1]]]);
+      expect(manager.size).to.equal(1);
+      manager.set(["c", validIds[2]]);
+      expect(manager.size).to.equal(2);
+      expect(manager.namespace("n").size).to.equal(1);
+    });
+
+    it(`should allow the map to change while iterating`, () => {
+      const manager = UIDManager({ rotation: true });
+      validKeys.forEach(manager.generateUIDFor);
+      const visited: unknown[] = [];
+      [...manager].forEach(([key]) => visited.push(key));
+      const seen: unknown[] = [];
+      manager.forEach((uid, key) => {
+        seen.push(key);
+        manager.generateUIDFor(key);
+      });
+      expect(seen).to.eql(visited);
+      const iterator = manager[Symbol.iterator]();
+      const [first] = iterator.next().value;
+      manager.deleteUIDFor(validKeys[1]);
+      manager.set(["late", validIds[0]]);
+      const rest = [...iterator].map(([key]) => key);
+      expect(rest).to.not.include(first);
+      expect(rest).to.not.include(validKeys[1]);
+      expect(rest[rest.length - 1]).to.equal("late");
+    });
+
+    it(`should skip expired entries`, () => {
+      let now = 0;
+      const manager = UIDManager({ clock: () => now });
+      manager.set(["a", validIds[0]], { ttl: 10 });
+      manager.set(["b", validIds[1]]);
+      now = 10;
+      expect([...manager]).to.eql([["b", validIds[1]]]);
+      expect(manager.size).to.equal(1);
+    });
+  });
+
+  describe(`UIDManager.find and filter`, () => {
+    it(`should return matching entries`, () => {
+      const manager = UIDManager();
+      manager.set(["a", validIds[0]]);
+      manager.set(["b", validIds[1]]);
+      manager.set(["c", validIds[2]]);
+      const calls: unknown[] = [];
+      const found = manager.find((uid, key) => {
+        calls.push(key);
+        return uid === validIds[1];
+      });
+      expect(found).to.eql(["b", validIds[1]]);
+      expect(calls).to.eql(["a", "b"]);
+      expect(manager.find(() => false)).to.be.undefined;
+      expect(manager.filter((_, key) => key !== "b")).to.eql([
+        ["a", validIds[0]],
+        ["c", validIds[2]],
+      ]);
+    });
+  });
+
+  describe(`UIDManager.page`, () => {
+    it(`should page through every entry`, () => {
+      const manager = UIDManager();
+      validIds.forEach((id, i) => manager.set([i, id]));
+      const pages: [number, string][][] = [];
+      let page = manager.page({ limit: 4 });
+      pages.push(page?.entries as [number, string][]);
+      while (page?.cursor) {
+        page = manager.page({ cursor: page.cursor, limit: 4 });
+        pages.push(page?.entries as [number, string][]);
+      }
+      expect(pages.map((p) => p.length)).to.eql([4, 4, 2]);
+      expect(pages.flat()).to.eql(manager.entries());
+      expect(manager.page()?.entries).to.eql(manager.entries());
+      expect(manager.page()?.cursor).to.be.undefined;
+    });
+
+    it(`should not skip entries when the cursor's anchor is deleted between pages`, () => {
+      const manager = UIDManager();
+      ["a", "b", "c", "d"].forEach((key, i) => manager.set([key, validIds[i]]));
+      const first = manager.page({ limit: 2 });
+      expect(first?.entries.map(([key]) => key)).to.eql(["a", "b"]);
+      manager.deleteUIDFor("b");
+      const second = manager.page({ cursor: first?.cursor, limit: 2 });
+      expect(second?.entries.map(([key]) => key)).to.eql(["c", "d"]);
+      expect(second?.cursor).to.be.undefined;
+      manager.set(["e", validIds[4]]);
+      const third = manager.page({ cursor: first?.cursor, limit: 2 });
+      expect(third?.entries.map(([key]) => key)).to.eql(["c", "d"]);
+      const last = manager.page({ cursor: third?.cursor, limit: 2 });
+      expect(last?.entries.map(([key]) => key)).to.eql(["e"]);
+    });
+
+    it(`should resume after entries deleted before and at the cursor`, () => {
+      const manager = UIDManager();
+      validIds.slice(0, 6).forEach((id, i) => manager.set([i, id]));
+      const first = manager.page({ limit: 3 });
+      expect(first?.entries.map(([key]) => key)).to.eql([0, 1, 2]);
+      manager.deleteUIDFor(0);
+      manager.deleteUIDFor(2);
+      const second = manager.page({ cursor: first?.cursor, limit: 3 });
+      expect(second?.entries.map(([key]) => key)).to.eql([3, 4, 5]);
+      expect(second?.cursor).to.be.undefined;
+    });
+
+    it(`should page through weakly held keys`, () => {
+      const manager = UIDManager<object>({ weak: true });
+      const keys = validIds.slice(0, 3).map(() => ({}));
+      keys.forEach((key, i) => manager.set([key, validIds[i]]));
+      const first = manager.page({ limit: 2 });
+      manager.deleteUIDFor(keys[1]);
+      const second = manager.page({ cursor: first?.cursor, limit: 2 });
+      expect(second?.entries).to.eql([[keys[2], validIds[2]]]);
+    });
+
+    it(`should reject invalid limits and cursors`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      manager.set(["a", validIds[0]]);
+      expect(manager.page({ limit: 0 })).to.be.null;
+      expect(manager.page({ limit: 1.5 })).to.be.null;
+      expect(manager.page({ cursor: "nope" })).to.be.null;
+    });
+  });
+
+  describe(`UIDManager.applyPatch`, () => {
+    it(`should turn one state into another`, () => {
+      const client = UIDManager();
+      const server = UIDManager();
+      client.set(["x", validIds[0]]);
+      client.set(["y", validIds[1]]);
+      client.set(["z", validIds[2]]);
+      server.set(["x", validIds[1]]);
+      server.set(["w", validIds[2]]);
+      server.set(["v", validIds[3]]);
+      const events: ChangeEvent[] = [];
+      client.subscribe((event) => events.push(event));
+      const patch = JSON.parse(JSON.stringify(toPatch(diff(client, server))));
+      expect(client.applyPatch(patch)).to.be.true;
+      expect(new Map(client.entries())).to.eql(new Map(server.entries()));
+      expect(events.map((e) => e.type).sort()).to.eql([
+        "delete",
+        "delete",
+        "set",
+        "set",
+        "set",
+      ]);
+    });
+
+    it(`should change nothing unless the whole patch applies`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      manager.set(["x", validIds[0]]);
+      const other = UIDManager();
+      other.set(["x", validIds[1]]);
+      const changes = diff(manager, other);
+      manager.set(["x", validIds[2]]);
+      expect(manager.applyPatch(changes)).to.be.false;
+      expect(manager.applyPatch(diff([], [["x", validIds[3]]]))).to.be.false;
+      expect(manager.applyPatch({ nope: true })).to.be.false;
+      expect(manager.entries()).to.eql([["x", validIds[2]]]);
+      const strict = UIDManager({ errors: "throw" });
+      expect(() => strict.applyPatch(changes)).to.throw(InvalidPatchError);
+    });
+
+    it(`should reject uids held in another namespace`, () => {
+      const manager = UIDManager({ logger: "silent" });
+      manager.namespace("n").set(["x", validIds[0]]);
+      expect(manager.applyPatch(diff([], [["y", validIds[0]]]))).to.be.false;
+      expect(manager.entries()).to.be.empty;
+    });
+  });
+
+  describe(`UIDManager.merge`, () => {
+    const setup = () => {
+      let now = 0;
+      const mine = UIDManager({ clock: () => now, logger: "silent" });
+      const theirs = UIDManager({ clock: () => now });
+      mine.restore([
+        ["a", validIds[0]],
+        ["b", validIds[1]],
+      ]);
+      now = 10;
+      theirs.restore([
+        ["a", validIds[2]],
+        ["c", validIds[1]],
+        ["d", validIds[3]],
+      ]);
+      return { mine, theirs };
+    };
+
+    it(`should keep mine by default`, () => {
+      const { mine, theirs } = setup();
+      const changes = mine.merge(theirs);
+      expect(mine.entries()).to.eql([
+        ["a", validIds[0]],
+        ["b", validIds[1]],
+        ["d", validIds[3]],
+      ]);
+      expect(changes?.added).to.eql([["d", validIds[3]]]);
+    });
+
+    it(`should keep theirs or the newest`, () => {
+      ["theirs", "newest"].forEach((strategy) => {
+        const { mine, theirs } = setup();
+        mine.merge(theirs, strategy as "theirs");
+        expect(new Map(mine.entries())).to.eql(new Map(theirs.entries()));
+      });
+    });
+
+    it(`should ask a resolver about each conflict`, () => {
+      const { mine, theirs } = setup();
+      const conflicts: unknown[] = [];
+      mine.merge(theirs, (conflict) => {
+        conflicts.push(conflict);
+        return conflict.mine[0] === "b" ? "theirs" : "mine";
+      });
+      expect(conflicts).to.eql([
+        { mine: ["a", validIds[0]], theirs: ["a", validIds[2]] },
+        { mine: ["b", validIds[1]], theirs: ["c", validIds[1]] },
+      ]);
+      expect(mine.entries()).to.eql([
+        ["a", validIds[0]],
+        ["c", validIds[1]],
+        ["d", validIds[3]],
+      ]);
+    });
+
+    it(`should never issue merged uids`, () => {
+      const { mine, theirs } = setup();
+      mine.merge(theirs);
+      expect(mine.addedAt(validIds[2])).to.equal(10);
+      expect(mine.addedAt(validIds[0])).to.equal(0);
+      expect(mine.set(["e", validIds[2]])).to.be.false;
+    });
+
+    it(`should merge snapshots and entries arrays`, () => {
+      const { mine, theirs } = setup();
+      const snapshot = JSON.parse(JSON.stringify(theirs.exportSnapshot()));
+      mine.merge(snapshot, "newest");
+      expect(new Map(mine.entries())).to.eql(new Map(theirs.entries()));
+      const other = UIDManager();
+      other.merge([["x", validIds[4]]]);
+      expect(other.entries()).to.eql([["x", validIds[4]]]);
+      expect(other.addedAt(validIds[4])).to.be.a("number");
+    });
+
+    it(`should reject invalid entries and strategies`, () => {
+      const { theirs } = setup();
+      const silent = UIDManager({ logger: "silent" });
+      expect(silent.merge([["x", "nope"]])).to.be.null;
+      expect(silent.merge(theirs, "nope" as "mine")).to.be.null;
+      expect(silent.entries()).to.be.empty;
+    });
+  });
+
   describe(`UIDManager.getMap`, () => {
     it(`should return a REFERENCE to the internal map object`, () => {
       const manager = UIDManager();
@@ -0,0 +1,175 @@
+/**
+ * @file biMap.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for biMap.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { biMap, weakBiMap } from "../src/lib/biMap";
+import { collectGarbage } from "./helpers/gc";
+
+const ids = [
+  "ba7faa56-24a2-4098-9850-2cdb3d8e5e85",
+  "295b66a6-830f-478c-aa02-932556f6aec4",
+  "b53f621e-34d2-4edf-9ced-8f674efef33b",
+];
+
+describe("biMap.ts", () => {
+  it("should behave as a Map", () => {
+    const map = biMap([["a", ids[0]]]);
+    expect(map).to.be.instanceOf(Map);
+    expect(map.get("a")).to.equal(ids[0]);
+    expect(map.size).to.equal(1);
+    expect([...map.entries()]).to.eql([["a", ids[0]]]);
+  });
+
+  it("should look up keys by uid through every mutation", () => {
+    const key = {};
+    const map = biMap();
+    map.set(key, ids[0]);
+    expect(map.keyFor(ids[0])).to.equal(key);
+    expect(map.hasUID(ids[0])).to.be.true;
+
+    map.set(key, ids[1]);
+    expect(map.hasUID(ids[0])).to.be.false;
+    expect(map.keyFor(ids[1])).to.equal(key);
+
+    expect(map.delete(key)).to.be.true;
+    expect(map.delete(key)).to.be.false;
+    expect(map.hasUID(ids[1])).to.be.false;
+
+    map.set("b", ids[2]);
+    map.clear();
+    expect(map.keyFor(ids[2])).to.be.undefined;
+  });
+
+  it("should throw if a uid is set for a second key", () => {
+    const map = biMap([["a", ids[0]]]);
+    expect(() => map.set("b", ids[0])).to.throw();
+    expect(map.get("b")).to.be.undefined;
+    expect(() => map.set("a", ids[0])).to.not.throw();
+  });
+
+  it("should visit the entries after a sequence number, even a deleted one", () => {
+    const map = biMap([
+      ["a", ids[0]],
+      ["b", ids[1]],
+    ]);
+    const visited: [string, string, number][] = [];
+    const collect = (key: string, uid: string, seq: number) => {
+      visited.push([key, uid, seq]);
+      return false;
+    };
+    map.visitAfter(0, collect);
+    expect(visited).to.eql([
+      ["a", ids[0], 1],
+      ["b", ids[1], 2],
+    ]);
+    map.set("a", ids[2]);
+    map.delete("b");
+    map.set("c", ids[1]);
+    visited.length = 0;
+    map.visitAfter(2, collect);
+    expect(visited).to.eql([["c", ids[1], 3]]);
+    visited.length = 0;
+    map.visitAfter(0, (key, uid, seq) => collect(key, uid, seq) || true);
+    expect(visited).to.eql([["a", ids[2], 1]]);
+  });
+
+  it("should record how to undo every change", () => {
+    const undo: (() => (() => void) | void)[] = [];
+    const map = biMap<string>(undefined, (fn) => undo.push(fn));
+    map.set("a", ids[0]);
+    map.set("b", ids[1]);
+    map.set("c", ids[2]);
+    undo.length = 0;
+    map.delete("a");
+    map.set("b", ids[0]);
+    map.clear();
+    map.set("d", ids[1]);
+    const then = new Set(undo.reverse().map((fn) => fn()));
+    then.forEach((fn) => fn?.());
+    expect([...map.entries()]).to.eql([
+      ["a", ids[0]],
+      ["b", ids[1]],
+      ["c", ids[2]],
+    ]);
+    expect(map.keyFor(ids[1])).to.equal("b");
+    expect(map.hasUID(ids[0])).to.be.true;
+    const visited: string[] = [];
+    map.visitAfter(1, (key) => visited.push(key) > 5);
+    expect(visited).to.eql(["b", "c"]);
+  });
+
+  describe("weakBiMap", () => {
+    it("should support the Map interface for live keys", () => {
+      const [a, b] = [{}, {}];
+      const map = weakBiMap();
+      map.set(a, ids[0]).set(b, ids[1]);
+      expect(map).to.not.be.instanceOf(Map);
+      expect(map.get(a)).to.equal(ids[0]);
+      expect(map.has(b)).to.be.true;
+      expect(map.size).to.equal(2);
+      expect([...map]).to.eql([
+        [a, ids[0]],
+        [b, ids[1]],
+      ]);
+      expect([...map.keys()]).to.eql([a, b]);
+      expect([...map.values()]).to.eql([ids[0], ids[1]]);
+      expect(new Map(map).get(a)).to.equal(ids[0]);
+      expect(map.keyFor(ids[1])).to.equal(b);
+
+      map.set(a, ids[2]);
+      expect(map.hasUID(ids[0])).to.be.false;
+      expect(map.delete(a)).to.be.true;
+      expect(map.hasUID(ids[2])).to.be.false;
+      map.clear();
+      expect(map.has(b)).to.be.false;
+      expect(map.size).to.equal(0);
+    });
+
+    it("should throw for primitive keys and uids of other keys", () => {
+      const map = weakBiMap();
+      expect(() => map.set("a" as any, ids[0])).to.throw(TypeError);
+      map.set({}, ids[0]);
+      expect(() => map.set({}, ids[0])).to.throw();
+    });
+
+    it("should record how to undo every change", () => {
+      const undo: (() => (() => void) | void)[] = [];
+      const [a, b] = [{}, {}];
+      const map = weakBiMap(undefined, (fn) => undo.push(fn));
+      map.set(a, ids[0]).set(b, ids[1]);
+      undo.length = 0;
+      map.delete(a);
+      map.set(b, ids[2]);
+      map.clear();
+      const then = new Set(undo.reverse().map((fn) => fn()));
+      then.forEach((fn) => fn?.());
+      expect([...map]).to.eql([
+        [a, ids[0]],
+        [b, ids[1]],
+      ]);
+      expect(map.hasUID(ids[2])).to.be.false;
+    });
+
+    it("should drop entries of collected keys", async () => {
+      const collected: string[] = [];
+      const map = weakBiMap((uid) => collected.push(uid));
+      const kept = {};
+      map.set(kept, ids[0]);
+      (() => {
+        map.set({}, ids[1]);
+      })();
+      await collectGarbage(() => collected.length > 0);
+      expect(collected).to.eql([ids[1]]);
+      expect(map.hasUID(ids[1])).to.be.false;
+      expect([...map.keys()]).to.eql([kept]);
+    });
+  });
+});
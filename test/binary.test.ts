@@ -0,0 +1,102 @@
+/**
+ * @file binary.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for binary.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  MAX,
+  NIL,
+  compare,
+  equals,
+  parse,
+  stringify,
+  variant,
+  version,
+} from "../src/lib/binary";
+import { InvalidUIDError } from "../src/lib/errors";
+import { uid } from "../src/lib/uid";
+
+const id = "ba7faa56-24a2-4098-9850-2cdb3d8e5e85";
+
+describe("binary.ts", () => {
+  describe("parse", () => {
+    it("should read the bytes of a UUID, most significant first", () => {
+      const bytes = parse(id.toUpperCase());
+      expect(bytes).to.be.instanceOf(Uint8Array);
+      expect(Buffer.from(bytes).toString("hex")).to.equal(id.replace(/-/g, ""));
+      expect(Array.from(parse(NIL))).to.eql(new Array(16).fill(0));
+      expect(Array.from(parse(MAX))).to.eql(new Array(16).fill(255));
+    });
+
+    it("should reject strings that are not hyphenated UUIDs", () => {
+      [
+        "",
+        "nope",
+        id.replace(/-/g, ""),
+        `${id}0`,
+        id.replace("b", "g"),
+      ].forEach((bad) => expect(() => parse(bad)).to.throw(InvalidUIDError));
+    });
+  });
+
+  describe("stringify", () => {
+    it("should round trip with parse", () => {
+      [id, NIL, MAX].forEach((uuid) => {
+        expect(stringify(parse(uuid))).to.equal(uuid);
+      });
+    });
+
+    it("should reject anything but 16 bytes", () => {
+      expect(() => stringify(new Uint8Array(15))).to.throw(InvalidUIDError);
+      expect(() => stringify([...parse(id)] as any)).to.throw(InvalidUIDError);
+    });
+  });
+
+  describe("compare", () => {
+    it("should order UUIDs by their bytes in either form", () => {
+      expect(compare(NIL, MAX)).to.equal(-1);
+      expect(compare(parse(MAX), id)).to.equal(1);
+      expect(compare(id, parse(id.toUpperCase()))).to.equal(0);
+    });
+
+    it("should sort version 7 UUIDs in creation order", () => {
+      let now = 1700000000000;
+      const generator = uid([], { version: 7, clock: () => now });
+      const ids = [...new Array(20)].map((_, i) => {
+        now += i % 3;
+        return generator.generate();
+      });
+      const shuffled = [...ids].reverse();
+      expect(shuffled.sort(compare)).to.eql(ids);
+    });
+  });
+
+  describe("equals", () => {
+    it("should ignore case and form", () => {
+      expect(equals(id.toUpperCase(), parse(id))).to.be.true;
+      expect(equals(NIL, MAX)).to.be.false;
+    });
+  });
+
+  describe("version and variant", () => {
+    it("should read the version and variant fields", () => {
+      expect(version(id)).to.equal(4);
+      expect(version(parse(id))).to.equal(4);
+      expect(version(NIL)).to.equal(0);
+      expect(version(MAX)).to.equal(15);
+      expect(variant(id)).to.equal("rfc9562");
+      expect(variant(NIL)).to.equal("ncs");
+      expect(variant(MAX)).to.equal("future");
+      expect(variant("00000000-0000-0000-c000-000000000000")).to.equal(
+        "microsoft",
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file brand.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for brand.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { assertUID, isUID } from "../src/lib/brand";
+import type { UID } from "../src/lib/brand";
+
+const id = "ba7faa56-24a2-4098-9850-2cdb3d8e5e85";
+
+describe("brand.ts", () => {
+  describe("brand.isUID", () => {
+    it("should return true only for valid uid strings", () => {
+      expect(isUID(id)).to.be.true;
+      expect(isUID(id.toUpperCase())).to.be.true;
+      expect(isUID("not-a-uid")).to.be.false;
+      expect(isUID(42)).to.be.false;
+      expect(isUID([id])).to.be.false;
+    });
+
+    it("should narrow to a tagged uid", () => {
+      const value: unknown = id;
+      if (isUID<"user">(value)) {
+        const user: UID<"user"> = value;
+        expect(user).to.equal(id);
+      }
+    });
+  });
+
+  describe("brand.assertUID", () => {
+    it("should throw for anything but a valid uid", () => {
+      expect(() => assertUID(id)).to.not.throw();
+      expect(() => assertUID("nope")).to.throw();
+      expect(() => assertUID(undefined)).to.throw();
+    });
+
+    it("should narrow after the assertion", () => {
+      const value: string = id;
+      assertUID<"doc">(value);
+      const doc: UID<"doc"> = value;
+      expect(doc).to.equal(id);
+    });
+  });
+});
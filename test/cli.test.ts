@@ -0,0 +1,307 @@
+/**
+ * @file cli.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for cli.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { cli } from "../src/lib/cli";
+import { encode } from "../src/lib/formats";
+import { UIDManager } from "../src/lib/UIDManager";
+import { SNAPSHOT_FORMAT } from "../src/lib/snapshot";
+
+const ids = [
+  "ba7faa56-24a2-4098-9850-2cdb3d8e5e85",
+  "295b66a6-830f-478c-aa02-932556f6aec4",
+  "b53f621e-34d2-4edf-9ced-8f674efef33b",
+];
+
+/**
+ * Run the command against in-memory files and standard input.
+ */
+const run = async (
+  argv: string[],
+  files: Record<string, string> = {},
+  stdin = "",
+) => {
+  let out = "";
+  let err = "";
+  const code = await cli(argv, {
+    stdout: (text) => {
+      out += text;
+    },
+    stderr: (text) => {
+      err += text;
+    },
+    stdin: async () => stdin,
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`No such file: ${path}.`);
+      return files[path];
+    },
+  });
+  return { code, out, err, lines: out.split("\n").filter(Boolean) };
+};
+
+const snapshotOf = (
+  entries: [unknown, string][],
+  users: [unknown, string][] = [],
+) => {
+  const manager = UIDManager();
+  entries.forEach((entry) => manager.set(entry));
+  users.forEach((entry) => manager.namespace("users").set(entry));
+  return JSON.stringify(manager.exportSnapshot());
+};
+
+describe("cli.ts", () => {
+  describe("cli", () => {
+    it("should print usage", async () => {
+      const help = await run(["--help"]);
+      expect(help.code).to.equal(0);
+      expect(help.out).to.contain("Usage: uidmanager");
+      const none = await run([]);
+      expect(none.code).to.equal(2);
+    });
+
+    it("should reject unknown commands and options", async () => {
+      const results = await Promise.all([
+        run(["nope"]),
+        run(["generate", "--nope"]),
+        run(["generate", "--to", "hex"]),
+        run(["generate", "--count", "-1"]),
+        run(["generate", "--version", "5"]),
+        run(["generate", "--format", "nope"]),
+        run(["generate", "--json", "--ndjson"]),
+        run(["convert", ids[0]]),
+        run(["snapshot", "nope"]),
+      ]);
+      results.forEach(({ code, err }) => {
+        expect(code).to.equal(2);
+        expect(err).to.contain("uidmanager --help");
+      });
+    });
+  });
+
+  describe("generate", () => {
+    it("should print uids in the requested version and format", async () => {
+      const v7 = await run(["generate", "--count", "3", "--version", "7"]);
+      expect(v7.code).to.equal(0);
+      expect(v7.lines).to.have.length(3);
+      v7.lines.forEach((id) => expect(id[14]).to.equal("7"));
+      const ulid = await run(["generate", "-n", "2", "--format", "ulid"]);
+      ulid.lines.forEach((id) => expect(id).to.match(/^[0-9A-Z]{26}$/));
+    });
+
+    it("should print json and ndjson", async () => {
+      const json = await run(["generate", "-n", "2", "--json"]);
+      const parsed = JSON.parse(json.out);
+      expect(parsed).to.have.length(2);
+      expect(new Set(parsed).size).to.equal(2);
+      const ndjson = await run(["generate", "-n", "2", "--ndjson"]);
+      ndjson.lines.forEach((line) =>
+        expect(JSON.parse(line)).to.be.a("string"),
+      );
+      expect((await run(["generate", "-n", "0"])).out).to.equal("");
+    });
+  });
+
+  describe("validate", () => {
+    it("should report each line of standard input", async () => {
+      const stdin = `${ids[0]}\n\nnope\n${ids[0]}\n`;
+      const result = await run(["validate"], {}, stdin);
+      expect(result.code).to.equal(1);
+      expect(result.lines).to.eql([
+        `-:1\tvalid\t${ids[0]}`,
+        "-:3\tinvalid (length)\tnope",
+        `-:4\tinvalid (duplicate)\t${ids[0]}`,
+      ]);
+      expect((await run(["validate"], {}, ids[1])).code).to.equal(0);
+    });
+
+    it("should read files and print json reports", async () => {
+      const files = { a: `${ids[0]}\n`, b: `${ids[1]}\r\n${ids[2]}` };
+      const result = await run(["validate", "a", "b", "--json"], files);
+      expect(result.code).to.equal(0);
+      const reports = JSON.parse(result.out);
+      expect(reports.map((r: any) => [r.source, r.line, r.valid])).to.eql([
+        ["a", 1, true],
+        ["b", 1, true],
+        ["b", 2, true],
+      ]);
+      const missing = await run(["validate", "c"], files);
+      expect(missing.code).to.equal(1);
+      expect(missing.err).to.contain("No such file");
+    });
+
+    it("should validate other formats", async () => {
+      const id = encode(ids[0], "base62");
+      const result = await run(
+        ["validate", "--format", "base62", "--ndjson"],
+        {},
+        id,
+      );
+      expect(result.code).to.equal(0);
+      expect(JSON.parse(result.lines[0])).to.include({
+        valid: true,
+        input: id,
+      });
+      expect(
+        (await run(["validate", "--format", "base62"], {}, ids[0])).code,
+      ).to.equal(1);
+    });
+  });
+
+  describe("convert", () => {
+    it("should convert between canonical, hex, and compact forms", async () => {
+      const hex = ids[0].replace(/-/g, "");
+      const compact = encode(ids[0], "base62");
+      expect((await run(["convert", "--to", "hex", ids[0]])).lines).to.eql([
+        hex,
+      ]);
+      expect((await run(["convert", "--to", "compact", hex])).lines).to.eql([
+        compact,
+      ]);
+      const back = await run([
+        "convert",
+        "--from",
+        "compact",
+        "--to",
+        "canonical",
+        compact,
+      ]);
+      expect(back.lines).to.eql([ids[0]]);
+      const ulid = await run([
+        "convert",
+        "--to",
+        "ulid",
+        `{${ids[0].toUpperCase()}}`,
+      ]);
+      expect(ulid.lines).to.eql([encode(ids[0], "ulid")]);
+    });
+
+    it("should convert standard input and report failures", async () => {
+      const stdin = `${ids[0]}\nnope\n`;
+      const result = await run(
+        ["convert", "--to", "base58", "--json"],
+        {},
+        stdin,
+      );
+      expect(result.code).to.equal(1);
+      const [ok, bad] = JSON.parse(result.out);
+      expect(ok).to.eql({ input: ids[0], output: encode(ids[0], "base58") });
+      expect(bad.input).to.equal("nope");
+      expect(bad.error).to.be.a("string");
+      const text = await run([
+        "convert",
+        "--from",
+        "base62",
+        "--to",
+        "hex",
+        ids[0],
+      ]);
+      expect(text.code).to.equal(1);
+      expect(text.lines[0]).to.match(/^error\t/);
+    });
+  });
+
+  describe("snapshot", () => {
+    it("should inspect a snapshot", async () => {
+      const files = {
+        a: snapshotOf([["x", ids[0]]], [["u", ids[2]]]),
+        old: JSON.stringify([["x", ids[1]]]),
+      };
+      const text = await run(["snapshot", "inspect", "a"], files);
+      expect(text.code).to.equal(0);
+      expect(text.lines).to.include("entries: 1");
+      expect(text.lines).to.include('namespaces: {"users":1}');
+      const json = await run(["snapshot", "inspect", "old", "--json"], files);
+      const summary = JSON.parse(json.out);
+      expect(summary).to.include({ sourceVersion: 0, entries: 1 });
+      expect(summary.history).to.eql({ uids: 1, retired: 0 });
+    });
+
+    it("should fail on files that are not snapshots", async () => {
+      const result = await run(["snapshot", "inspect", "a"], {
+        a: '{"format":1}',
+      });
+      expect(result.code).to.equal(1);
+      expect(
+        (await run(["snapshot", "inspect", "a"], { a: "{" })).code,
+      ).to.equal(1);
+    });
+
+    it("should diff two snapshots", async () => {
+      const files = {
+        a: snapshotOf([
+          [{ id: 1 }, ids[0]],
+          ["gone", ids[1]],
+        ]),
+        b: snapshotOf([
+          [{ id: 1 }, ids[0]],
+          ["new", ids[2]],
+        ]),
+      };
+      const text = await run(["snapshot", "diff", "a", "b"], files);
+      expect(text.code).to.equal(1);
+      expect(text.lines).to.eql([`- "gone" ${ids[1]}`, `+ "new" ${ids[2]}`]);
+      const json = await run(["snapshot", "diff", "a", "b", "--json"], files);
+      const patch = JSON.parse(json.out);
+      expect(patch.format).to.equal("uidmanager-patch");
+      expect(patch.added).to.eql([["new", ids[2]]]);
+      const ndjson = await run(
+        ["snapshot", "diff", "a", "b", "--ndjson"],
+        files,
+      );
+      expect(JSON.parse(ndjson.lines[1])).to.eql({
+        op: "added",
+        key: "new",
+        uid: ids[2],
+      });
+      const same = await run(
+        ["snapshot", "diff", "a", "a", "--namespace", "users"],
+        files,
+      );
+      expect(same.code).to.equal(0);
+      expect(same.out).to.equal("");
+    });
+
+    it("should merge two snapshots", async () => {
+      const files = {
+        a: snapshotOf([
+          [{ id: 1 }, ids[0]],
+          ["y", ids[1]],
+        ]),
+        b: snapshotOf([
+          [{ id: 1 }, ids[2]],
+          ["z", ids[1]],
+        ]),
+      };
+      const mine = await run(["snapshot", "merge", "a", "b"], files);
+      expect(mine.code).to.equal(0);
+      const merged = JSON.parse(mine.out);
+      expect(merged.format).to.equal(SNAPSHOT_FORMAT);
+      expect(merged.entries).to.eql([
+        [{ id: 1 }, ids[0]],
+        ["y", ids[1]],
+      ]);
+      const theirs = await run(
+        ["snapshot", "merge", "a", "b", "--strategy", "theirs", "--ndjson"],
+        files,
+      );
+      expect(theirs.lines).to.have.length(1);
+      expect(JSON.parse(theirs.out).entries).to.eql([
+        [{ id: 1 }, ids[2]],
+        ["z", ids[1]],
+      ]);
+      const bad = await run(
+        ["snapshot", "merge", "a", "b", "--strategy", "nope"],
+        files,
+      );
+      expect(bad.code).to.equal(2);
+    });
+  });
+});
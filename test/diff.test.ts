@@ -0,0 +1,124 @@
+/**
+ * @file diff.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for diff.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { PATCH_FORMAT, diff, readPatch, toPatch } from "../src/lib/diff";
+import { InvalidPatchError } from "../src/lib/errors";
+import { UIDManager } from "../src/lib/UIDManager";
+
+const ids = [
+  "ba7faa56-24a2-4098-9850-2cdb3d8e5e85",
+  "295b66a6-830f-478c-aa02-932556f6aec4",
+  "b53f621e-34d2-4edf-9ced-8f674efef33b",
+  "6c855981-b6eb-4498-8145-fa483c2c6ce5",
+];
+
+describe("diff.ts", () => {
+  describe("diff", () => {
+    it("should find added, removed, rekeyed, and changed entries", () => {
+      const a: [string, string][] = [
+        ["same", ids[0]],
+        ["gone", ids[1]],
+        ["old", ids[2]],
+      ];
+      const b: [string, string][] = [
+        ["same", ids[0]],
+        ["new", ids[2]],
+        ["gone", ids[3]],
+      ];
+      expect(diff(a, b)).to.eql({
+        added: [],
+        removed: [],
+        rekeyed: [{ uid: ids[2], from: "old", to: "new" }],
+        changed: [{ key: "gone", from: ids[1], to: ids[3] }],
+      });
+      expect(diff(b, [])).to.eql({
+        added: [],
+        removed: b,
+        rekeyed: [],
+        changed: [],
+      });
+      expect(diff([], b).added).to.eql(b);
+    });
+
+    it("should not report keys whose uid moved away as changed", () => {
+      const a: [string, string][] = [
+        ["x", ids[0]],
+        ["y", ids[1]],
+      ];
+      expect(diff(a, [["x", ids[1]]])).to.eql({
+        added: [],
+        removed: [["x", ids[0]]],
+        rekeyed: [{ uid: ids[1], from: "y", to: "x" }],
+        changed: [],
+      });
+      expect(diff([["x", ids[0]]], [["x", ids[1]]]).changed).to.have.length(1);
+    });
+
+    it("should compare managers", () => {
+      const a = UIDManager();
+      const b = UIDManager();
+      a.set(["x", ids[0]]);
+      b.set(["x", ids[0]]);
+      b.set(["y", ids[1]]);
+      expect(diff(a, b).added).to.eql([["y", ids[1]]]);
+      expect(diff(a, a)).to.eql({
+        added: [],
+        removed: [],
+        rekeyed: [],
+        changed: [],
+      });
+    });
+  });
+
+  describe("toPatch and readPatch", () => {
+    it("should round trip through JSON", () => {
+      const changes = diff(
+        [
+          [{ id: 1 }, ids[0]],
+          [{ id: 2 }, ids[1]],
+        ],
+        [
+          [{ id: 3 }, ids[0]],
+          [{ id: 2 }, ids[2]],
+        ],
+      );
+      const patch = JSON.parse(JSON.stringify(toPatch(changes)));
+      expect(patch.format).to.equal(PATCH_FORMAT);
+      expect(readPatch(patch)).to.eql(changes);
+    });
+
+    it("should encode and decode keys with a codec", () => {
+      const key = { id: 1 };
+      const codec = {
+        toKey: (k: { id: number }) => k.id,
+        fromKey: () => key,
+      };
+      const patch = toPatch(diff([], [[key, ids[0]]]), codec);
+      expect(patch.added).to.eql([[1, ids[0]]]);
+      expect(readPatch(patch, codec).added[0][0]).to.equal(key);
+    });
+
+    it("should reject malformed patches", () => {
+      const patch = toPatch(diff([], [["a", ids[0]]]));
+      [
+        null,
+        {},
+        { ...patch, added: [["a"]] },
+        { ...patch, changed: [{ key: "a", from: ids[0] }] },
+        { ...patch, version: 2 },
+        { ...patch, format: "nope" },
+      ].forEach((bad) => {
+        expect(() => readPatch(bad)).to.throw(InvalidPatchError);
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @file errors.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for errors.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  DuplicateUIDError,
+  InvalidKeyError,
+  InvalidUIDError,
+  UIDManagerError,
+} from "../src/lib/errors";
+
+describe("errors.ts", () => {
+  it("should be instances of Error and UIDManagerError with their own names", () => {
+    const errors = [
+      new InvalidKeyError("a"),
+      new InvalidUIDError("b"),
+      new DuplicateUIDError("c"),
+    ];
+    errors.forEach((e) => {
+      expect(e).to.be.instanceOf(Error);
+      expect(e).to.be.instanceOf(UIDManagerError);
+    });
+    expect(errors.map((e) => e.name)).to.eql([
+      "InvalidKeyError",
+      "InvalidUIDError",
+      "DuplicateUIDError",
+    ]);
+    expect(errors[0]).to.not.be.instanceOf(InvalidUIDError);
+  });
+
+  it("should carry the offending entry, key, uid, and index", () => {
+    const e = new DuplicateUIDError("dup", { entry: ["k", "u"], index: 3 });
+    expect(e.message).to.equal("dup");
+    expect(e.entry).to.eql(["k", "u"]);
+    expect(e.key).to.equal("k");
+    expect(e.uid).to.equal("u");
+    expect(e.index).to.equal(3);
+    const k = new InvalidKeyError("key", { key: null });
+    expect(k.key).to.be.null;
+    expect(k.entry).to.be.undefined;
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @file events.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for events.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { emitter } from "../src/lib/events";
+import type { ChangeEvent } from "../src/lib/events";
+
+const event = (type: ChangeEvent["type"], key: string): ChangeEvent => ({
+  type,
+  key,
+  oldUID: undefined,
+  newUID: "a",
+});
+
+describe("events.ts", () => {
+  describe("emitter.subscribe", () => {
+    it("should call listeners synchronously until unsubscribed", () => {
+      const events = emitter(() => {});
+      const received: ChangeEvent[] = [];
+      const unsubscribe = events.subscribe((e) => received.push(e));
+      events.emit(event("generate", "a"));
+      expect(received).to.have.lengthOf(1);
+      expect(received[0]).to.eql(event("generate", "a"));
+      expect(Object.isFrozen(received[0])).to.be.true;
+      unsubscribe();
+      unsubscribe();
+      events.emit(event("generate", "b"));
+      expect(received).to.have.lengthOf(1);
+    });
+
+    it("should coalesce events into one array per microtask in batch mode", async () => {
+      const events = emitter(() => {});
+      const batches: ChangeEvent[][] = [];
+      events.subscribe((e) => batches.push(e), { batch: true });
+      events.emit(event("generate", "a"));
+      events.emit(event("delete", "a"));
+      expect(batches).to.be.empty;
+      await Promise.resolve();
+      expect(batches).to.have.lengthOf(1);
+      expect(batches[0].map((e) => e.type)).to.eql(["generate", "delete"]);
+      events.emit(event("set", "b"));
+      await Promise.resolve();
+      expect(batches).to.have.lengthOf(2);
+    });
+
+    it("should report listener exceptions and keep calling listeners", () => {
+      const errors: unknown[] = [];
+      const events = emitter((e) => errors.push(e));
+      const received: ChangeEvent[] = [];
+      events.subscribe(() => {
+        throw new Error("boom");
+      });
+      events.subscribe((e) => received.push(e));
+      expect(() => events.emit(event("set", "a"))).to.not.throw();
+      expect(errors).to.have.lengthOf(1);
+      expect(received).to.have.lengthOf(1);
+    });
+
+    it("should throw if the listener is not a function", () => {
+      const events = emitter(() => {});
+      expect(() => events.subscribe("nope" as any)).to.throw();
+    });
+  });
+
+  describe("emitter.on", () => {
+    it("should only call listeners for the given type", () => {
+      const events = emitter(() => {});
+      const received: ChangeEvent[] = [];
+      events.on("delete", (e) => received.push(e));
+      events.emit(event("generate", "a"));
+      events.emit(event("delete", "a"));
+      expect(received.map((e) => e.type)).to.eql(["delete"]);
+    });
+
+    it("should throw for an unknown type", () => {
+      const events = emitter(() => {});
+      expect(() => events.on("nope" as any, () => {})).to.throw();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @file formats.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for formats.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { canonicalize, createFormat, decode, encode } from "../src/lib/formats";
+import type { CompactFormat } from "../src/lib/formats";
+import { validator } from "../src/lib/uid";
+
+const id = "ba7faa56-24a2-4098-9850-2cdb3d8e5e85";
+const max = "ffffffff-ffff-ffff-ffff-ffffffffffff";
+const compact: CompactFormat[] = ["ulid", "base58", "base62", "base64url"];
+
+let seed = 1;
+const context = {
+  isUUID: (v: string) => validator(v).length === 1,
+  random: () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 32;
+    return seed;
+  },
+  clock: () => 1700000000000,
+};
+
+describe("formats.ts", () => {
+  describe("encode", () => {
+    it("should match known encodings", () => {
+      const bytes = Buffer.from(id.replace(/-/g, ""), "hex");
+      expect(encode(id, "base64url")).to.equal(bytes.toString("base64url"));
+      expect(encode(id, "base58")).to.equal("Q2iknni1NoPkkXKc9MUafE");
+      expect(encode(id, "base62")).to.equal("5fuunKi6k25TJF1NVBxth7");
+      expect(decode("01ARZ3NDEKTSV4RRFFQ69G5FAV", "ulid")).to.equal(
+        "01563e3a-b5d3-d676-4c61-efb99302bd5b",
+      );
+    });
+
+    it("should reject invalid UUIDs and formats", () => {
+      expect(() => encode("nope", "base58")).to.throw();
+      expect(() => encode(id, "base32" as CompactFormat)).to.throw();
+    });
+  });
+
+  describe("decode", () => {
+    it("should round trip every compact format", () => {
+      compact.forEach((format) => {
+        [id, max, "00000000-0000-0000-0000-000000000000"].forEach((uuid) => {
+          const encoded = encode(uuid, format);
+          expect(encoded).to.have.length(format === "ulid" ? 26 : 22);
+          expect(decode(encoded, format)).to.equal(uuid);
+        });
+      });
+      expect(decode(encode(id, "ulid").toLowerCase(), "ulid")).to.equal(id);
+    });
+
+    it("should reject malformed and out of range identifiers", () => {
+      expect(() => decode("0OIl", "base58")).to.throw();
+      expect(() => decode("8ZZZZZZZZZZZZZZZZZZZZZZZZZ", "ulid")).to.throw();
+      expect(() => decode("zzzzzzzzzzzzzzzzzzzzzz", "base62")).to.throw();
+      expect(() => decode("_____________________-", "base64url")).to.throw();
+    });
+  });
+
+  describe("canonicalize", () => {
+    it("should rewrite alternate UUID spellings", () => {
+      const upper = id.toUpperCase();
+      expect(canonicalize(`{${upper}}`)).to.equal(id);
+      expect(canonicalize(`urn:uuid:${id}`)).to.equal(id);
+      expect(canonicalize(upper.replace(/-/g, ""))).to.equal(id);
+      expect(canonicalize(id)).to.equal(id);
+    });
+
+    it("should only lowercase anything else", () => {
+      expect(canonicalize("{NOPE")).to.equal("{nope");
+      expect(canonicalize(`${id}0`)).to.equal(`${id}0`);
+      expect(createFormat(context).normalize(`{${id}}`)).to.equal(id);
+    });
+  });
+
+  describe("createFormat", () => {
+    it("should only accept UUIDs of valid versions in compact formats", () => {
+      const format = createFormat(context, "base62");
+      expect(format.test(encode(id, "base62"))).to.be.true;
+      expect(format.test(encode(max, "base62"))).to.be.false;
+      expect(format.normalize("aB")).to.equal("aB");
+    });
+
+    it("should generate sorted ULIDs and spell them in uppercase", () => {
+      const format = createFormat(context, "ulid");
+      const ids = [...new Array(100)].map(() => format.generate?.() as string);
+      expect([...ids].sort()).to.eql(ids);
+      expect(new Set(ids).size).to.equal(100);
+      expect(ids.every(format.test)).to.be.true;
+      expect(format.normalize(ids[0].toLowerCase())).to.equal(ids[0]);
+      expect(decode(ids[0], "ulid").startsWith("018bcfe5-6800")).to.be.true;
+    });
+
+    it("should generate NanoIDs with a custom alphabet and size", () => {
+      const format = createFormat(context, {
+        type: "nanoid",
+        alphabet: "abc",
+        size: 8,
+      });
+      const nano = format.generate?.() as string;
+      expect(nano).to.match(/^[abc]{8}$/);
+      expect(format.test(nano)).to.be.true;
+      expect(format.test("abcd")).to.be.false;
+      expect(format.fromUUID).to.be.undefined;
+      const standard = createFormat(context, "nanoid").generate?.() as string;
+      expect(standard).to.match(/^[A-Za-z0-9_-]{21}$/);
+    });
+
+    it("should reject invalid settings", () => {
+      const bad = [
+        { type: "nanoid", alphabet: "aa" },
+        { type: "nanoid", size: 0 },
+        "base32",
+      ];
+      bad.forEach((option) => {
+        expect(() => createFormat(context, option as any)).to.throw();
+      });
+    });
+  });
+});
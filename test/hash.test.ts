@@ -0,0 +1,54 @@
+/**
+ * @file hash.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for hash.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { md5, sha1, utf8 } from "../src/lib/hash";
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+describe("hash.ts", () => {
+  describe("hash.utf8", () => {
+    it("should encode multi-byte characters and surrogate pairs", () => {
+      expect(hex(utf8("aé€😀"))).to.equal("61c3a9e282acf09f9880");
+    });
+  });
+
+  describe("hash.sha1", () => {
+    it("should match the published test vectors", () => {
+      expect(hex(sha1(utf8("")))).to.equal(
+        "da39a3ee5e6b4b0d3255bfef95601890afd80709",
+      );
+      expect(hex(sha1(utf8("abc")))).to.equal(
+        "a9993e364706816aba3e25717850c26c9cd0d89d",
+      );
+      expect(
+        hex(
+          sha1(
+            utf8("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"),
+          ),
+        ),
+      ).to.equal("84983e441c3bd26ebaae4aa1f95129e5e54670f1");
+    });
+  });
+
+  describe("hash.md5", () => {
+    it("should match the published test vectors", () => {
+      expect(hex(md5(utf8("")))).to.equal("d41d8cd98f00b204e9800998ecf8427e");
+      expect(hex(md5(utf8("abc")))).to.equal(
+        "900150983cd24fb0d6963f7d28e17f72",
+      );
+      expect(
+        hex(md5(utf8("The quick brown fox jumps over the lazy dog"))),
+      ).to.equal("9e107d9d372bb6826bd81d3542a419d6");
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * @file gc.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Garbage collection for the tests of weakly held keys. Mocha runs
+ * with `--expose-gc`, see the `mocha` section of package.json.
+ */
+
+/**
+ * Force garbage collection and give finalizers a chance to run,
+ * until `done` returns `true` or the attempts run out.
+ */
+export const collectGarbage = async (
+  done: () => boolean,
+  attempts = 20,
+): Promise<void> => {
+  if (!global.gc) throw new Error("Run the tests with --expose-gc.");
+  if (done() || attempts <= 0) return;
+  global.gc();
+  await new Promise((resolve) => {
+    setTimeout(resolve, 10);
+  });
+  await collectGarbage(done, attempts - 1);
+};
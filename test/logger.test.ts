@@ -0,0 +1,87 @@
+/**
+ * @file logger.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for logger.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { consoleSink, createLogger, silentSink } from "../src/lib/logger";
+import type { LogEvent } from "../src/lib/logger";
+
+const event = (level: LogEvent["level"]): LogEvent => ({
+  level,
+  message: "message",
+  operation: "test",
+});
+
+describe("logger.ts", () => {
+  describe("createLogger", () => {
+    it("should forward events at or above the level to a custom sink", () => {
+      const events: LogEvent[] = [];
+      const log = createLogger((e) => events.push(e), "warn");
+      log(event("debug"));
+      log(event("info"));
+      log(event("warn"));
+      log(event("error"));
+      expect(events.map((e) => e.level)).to.eql(["warn", "error"]);
+    });
+
+    it("should default to the info level", () => {
+      const events: LogEvent[] = [];
+      const log = createLogger((e) => events.push(e));
+      log(event("debug"));
+      log(event("info"));
+      expect(events.map((e) => e.level)).to.eql(["info"]);
+    });
+
+    it("should return the silent sink for silent", () => {
+      expect(createLogger("silent", "debug")).to.equal(silentSink);
+    });
+
+    it("should write to the console by default", () => {
+      const calls: unknown[][] = [];
+      const { warn } = console;
+      console.warn = (...args: unknown[]) => calls.push(args);
+      try {
+        createLogger()({ ...event("warn"), uid: "a" });
+      } finally {
+        console.warn = warn;
+      }
+      expect(calls).to.eql([["test : message", { key: undefined, uid: "a" }]]);
+    });
+
+    it("should swallow exceptions thrown by the sink", () => {
+      const log = createLogger(() => {
+        throw new Error("boom");
+      }, "debug");
+      expect(() => log(event("debug"))).to.not.throw();
+    });
+
+    it("should throw for an unknown level or logger", () => {
+      expect(() => createLogger("console", "nope" as any)).to.throw();
+      expect(() => createLogger("nope" as any)).to.throw();
+    });
+  });
+
+  describe("consoleSink", () => {
+    it("should group errors under the operation and message", () => {
+      const calls: unknown[][] = [];
+      const { groupCollapsed, log, groupEnd } = console;
+      console.groupCollapsed = (...args: unknown[]) => calls.push(args);
+      console.log = (...args: unknown[]) => calls.push(args);
+      console.groupEnd = () => calls.push([]);
+      const error = new Error("boom");
+      try {
+        consoleSink({ ...event("error"), error });
+      } finally {
+        Object.assign(console, { groupCollapsed, log, groupEnd });
+      }
+      expect(calls).to.eql([["test : message"], [error], []]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @file names.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for names.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { NAMESPACES, deriveUid, serializeKey } from "../src/lib/names";
+import { uid } from "../src/lib/uid";
+
+describe("names.ts", () => {
+  describe("names.deriveUid", () => {
+    it("should derive the RFC 9562 version 5 example", () => {
+      const id = deriveUid(NAMESPACES.DNS, "www.example.com");
+      expect(id).to.equal("2ed6657d-e927-568b-95e1-2665a8aea6a2");
+    });
+
+    it("should derive the RFC 9562 version 3 example", () => {
+      const id = deriveUid(NAMESPACES.DNS, "www.example.com", 3);
+      expect(id).to.equal("5df41881-3aed-3515-88a7-2f4a814cf09e");
+    });
+
+    it("should always derive the same uid for the same namespace and key", () => {
+      const a = deriveUid(NAMESPACES.URL, { path: "/a", id: 1 });
+      const b = deriveUid(NAMESPACES.URL, { id: 1, path: "/a" });
+      expect(a).to.equal(b);
+      expect(deriveUid(NAMESPACES.OID, { id: 1, path: "/a" })).to.not.equal(a);
+    });
+
+    it("should derive uids recognized by the validator", () => {
+      const ids = [
+        deriveUid(NAMESPACES.X500, "cn=a"),
+        deriveUid(NAMESPACES.X500, "cn=a", 3),
+      ];
+      expect(uid().validate(ids)).to.eql(ids);
+    });
+
+    it("should throw for invalid namespaces, versions, or keys", () => {
+      expect(() => deriveUid("not-a-uid", "a")).to.throw();
+      expect(() => deriveUid(NAMESPACES.DNS, "a", 4 as any)).to.throw();
+      expect(() => deriveUid(NAMESPACES.DNS, null)).to.throw();
+      expect(() => deriveUid(NAMESPACES.DNS, Symbol("a"))).to.throw();
+    });
+  });
+
+  describe("names.serializeKey", () => {
+    it("should use strings as-is and sort object keys", () => {
+      expect(serializeKey("a/b")).to.equal("a/b");
+      expect(serializeKey({ b: [1, { d: 2, c: 3 }], a: true })).to.equal(
+        '{"a":true,"b":[1,{"c":3,"d":2}]}',
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file random.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for random.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { webcrypto, randomFillSync } from "crypto";
+import {
+  detectRandomSource,
+  seededRandom,
+  toRandomSource,
+} from "../src/lib/random";
+
+const none = () => undefined;
+
+describe("random.ts", () => {
+  describe("random.detectRandomSource", () => {
+    it("should find a secure source in Node", () => {
+      const source = detectRandomSource();
+      expect(source.secure).to.be.true;
+      expect(source.name).to.not.equal("math-random");
+      const values = source.fill(new Uint32Array(4));
+      expect(values.length).to.equal(4);
+    });
+
+    it("should prefer crypto on the global scope", () => {
+      const scope = { crypto: webcrypto };
+      expect(detectRandomSource(scope, none).name).to.equal("web-crypto");
+    });
+
+    it("should find crypto in worker and window contexts", () => {
+      const worker = { self: { crypto: webcrypto } };
+      const browser = { window: { crypto: webcrypto } };
+      expect(detectRandomSource(worker, none).name).to.equal("web-crypto");
+      expect(detectRandomSource(browser, none).name).to.equal("web-crypto");
+    });
+
+    it("should fall back to node:crypto webcrypto, then randomFillSync", () => {
+      const a = detectRandomSource({}, () => ({ webcrypto }));
+      expect(a.name).to.equal("node-webcrypto");
+      const b = detectRandomSource({}, () => ({ randomFillSync }));
+      expect(b.name).to.equal("node-crypto");
+      expect(b.fill(new Uint32Array(4)).length).to.equal(4);
+    });
+
+    it("should report Math.random as insecure when nothing else is found", () => {
+      const throws = () => {
+        throw new Error("Cannot find module");
+      };
+      const source = detectRandomSource({}, throws);
+      expect(source.name).to.equal("math-random");
+      expect(source.secure).to.be.false;
+      const values = source.fill(new Uint32Array(8));
+      values.forEach((v) => expect(v).to.be.within(0, 0xffffffff));
+    });
+  });
+
+  describe("random.seededRandom", () => {
+    it("should produce the same sequence for the same seed", () => {
+      const a = seededRandom(42).fill(new Uint32Array(16));
+      const b = seededRandom(42).fill(new Uint32Array(16));
+      const c = seededRandom(43).fill(new Uint32Array(16));
+      expect(Array.from(a)).to.eql(Array.from(b));
+      expect(Array.from(a)).to.not.eql(Array.from(c));
+    });
+
+    it("should be reported as seeded and insecure", () => {
+      const source = seededRandom(1);
+      expect(source.name).to.equal("seeded");
+      expect(source.secure).to.be.false;
+      expect(source.seed).to.equal(1);
+    });
+
+    it("should pick and expose a random seed if none is given", () => {
+      const a = seededRandom();
+      const b = seededRandom(a.seed);
+      const values = a.fill(new Uint32Array(4));
+      expect(Array.from(b.fill(new Uint32Array(4)))).to.eql(Array.from(values));
+    });
+
+    it("should replay from a saved state", () => {
+      const source = seededRandom(7);
+      source.fill(new Uint32Array(5));
+      const state = source.getState();
+      const next = Array.from(source.fill(new Uint32Array(4)));
+      source.setState(state);
+      expect(Array.from(source.fill(new Uint32Array(4)))).to.eql(next);
+      expect(() => source.setState([0, 0, 0, 0])).to.throw();
+    });
+  });
+
+  describe("random.toRandomSource", () => {
+    it("should wrap fill functions as trusted custom sources", () => {
+      const source = toRandomSource((values) => values.fill(3));
+      expect(source.name).to.equal("custom");
+      expect(source.secure).to.be.true;
+      expect(Array.from(source.fill(new Uint32Array(2)))).to.eql([3, 3]);
+    });
+  });
+});
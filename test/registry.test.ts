@@ -0,0 +1,114 @@
+/**
+ * @file registry.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for registry.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { createRegistry } from "../src/lib/registry";
+import type { UIDManagerInterface } from "../src/lib/UIDManager";
+import { UIDManager } from "../src/lib/UIDManager";
+import { DuplicateUIDError } from "../src/lib/errors";
+import { seededRandom } from "../src/lib/random";
+
+const ids = [
+  "ba7faa56-24a2-4098-9850-2cdb3d8e5e85",
+  "295b66a6-830f-478c-aa02-932556f6aec4",
+];
+
+describe("registry.ts", () => {
+  describe("createRegistry", () => {
+    it("should attach managers created with the registry option", () => {
+      const registry = createRegistry<UIDManagerInterface>();
+      const a = UIDManager({ registry });
+      const b = UIDManager({ registry });
+      expect(registry.managers()).to.eql([a, b]);
+      expect(registry.attach(a)).to.be.false;
+    });
+
+    it("should find which manager holds a uid in any namespace", () => {
+      const registry = createRegistry<UIDManagerInterface>();
+      const a = UIDManager({ registry });
+      const b = UIDManager({ registry });
+      const id = a.generateUIDFor("x") as string;
+      b.namespace("orders").set(["y", ids[0]]);
+      expect(registry.ownerOf(id)).to.equal(a);
+      expect(registry.ownerOf(ids[0].toUpperCase())).to.equal(b);
+      expect(registry.ownerOf(ids[1])).to.be.undefined;
+      expect(registry.has(id)).to.be.true;
+      expect(registry.has(ids[1])).to.be.false;
+    });
+
+    it("should reject managers holding a uid another manager holds", () => {
+      const registry = createRegistry();
+      const a = UIDManager({ registry });
+      a.set(["x", ids[0]]);
+      const b = UIDManager();
+      b.namespace("other").set(["y", ids[0]]);
+      expect(() => registry.attach(b)).to.throw(DuplicateUIDError);
+      expect(registry.managers()).to.eql([a]);
+    });
+
+    it("should release the uids of detached managers", () => {
+      const registry = createRegistry();
+      const a = UIDManager({ registry });
+      const b = UIDManager({ registry, logger: "silent" });
+      a.set(["x", ids[0]]);
+      expect(b.set(["y", ids[0]])).to.be.false;
+      expect(registry.detach(a)).to.be.true;
+      expect(registry.detach(a)).to.be.false;
+      expect(b.set(["y", ids[0]])).to.be.true;
+      expect(a.getKeyFor(ids[0])).to.equal("x");
+      expect(registry.ownerOf(ids[0])).to.equal(b);
+    });
+  });
+
+  describe("attached managers", () => {
+    it("should not set, restore, or import uids held by another manager", () => {
+      const registry = createRegistry();
+      const a = UIDManager({ registry, logger: "silent" });
+      const b = UIDManager({ registry, logger: "silent" });
+      a.set(["x", ids[0]]);
+      expect(b.set(["y", ids[0]])).to.be.false;
+      expect(b.addAlias("y", ids[0])).to.be.false;
+      expect(b.restore([["y", ids[0]]])).to.be.false;
+      expect(b.namespace("n").restore([["y", ids[0]]])).to.be.false;
+      const snapshot = UIDManager().exportSnapshot();
+      expect(b.importSnapshot({ ...snapshot, entries: [["y", ids[0]]] })).to.be
+        .false;
+      expect(b.restore([["y", ids[1]]])).to.be.true;
+      expect(a.restore([["x", ids[0]]])).to.be.true;
+    });
+
+    it("should check uids in managers joined with attach", () => {
+      const registry = createRegistry();
+      const a = UIDManager({ registry });
+      const b = UIDManager({ logger: "silent" });
+      const c = UIDManager({ logger: "silent" });
+      a.set(["x", ids[0]]);
+      expect(registry.attach(b)).to.be.true;
+      expect(b.set(["k", ids[0]])).to.be.false;
+      expect(b.restore([["k", ids[0]]])).to.be.false;
+      expect(registry.attach(c)).to.be.true;
+      c.set(["y", ids[1]]);
+      expect(a.set(["z", ids[1]])).to.be.false;
+      registry.detach(b);
+      expect(b.set(["k", ids[0]])).to.be.true;
+      expect(registry.ownerOf(ids[0])).to.equal(a);
+    });
+
+    it("should not generate uids held by another manager", () => {
+      const registry = createRegistry();
+      const a = UIDManager({ registry, random: seededRandom(1) });
+      const b = UIDManager({ registry, random: seededRandom(1) });
+      const first = a.generateUIDFor("x");
+      expect(b.generateUIDFor("y")).to.not.equal(first);
+      expect(registry.ownerOf(first as string)).to.equal(a);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @file snapshot.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for snapshot.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  byId,
+  jsonKeyCodec,
+  migrateSnapshot,
+} from "../src/lib/snapshot";
+import type { Migrations } from "../src/lib/snapshot";
+import { InvalidSnapshotError } from "../src/lib/errors";
+
+const id = "ba7faa56-24a2-4098-9850-2cdb3d8e5e85";
+
+const snapshot = {
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  uidVersion: 4,
+  settings: { retention: { type: "all" } },
+  entries: [["a", id]],
+  namespaces: {},
+  links: [],
+  expires: [],
+  history: { uids: [[id, 1]], retired: [] },
+};
+
+describe("snapshot.ts", () => {
+  describe("jsonKeyCodec", () => {
+    it("should pass JSON-safe keys through", () => {
+      const key = { a: [1, "b"] };
+      expect(jsonKeyCodec.fromKey(jsonKeyCodec.toKey(key))).to.equal(key);
+    });
+
+    it("should reject keys that can not be serialized", () => {
+      [Symbol("a"), () => {}, BigInt(1)].forEach((key) => {
+        expect(() => jsonKeyCodec.toKey(key)).to.throw(InvalidSnapshotError);
+      });
+    });
+  });
+
+  describe("byId", () => {
+    it("should store keys by id and look them up", () => {
+      const users = [{ id: 1 }, { id: 2 }];
+      const codec = byId<{ id: number }>("id", (v) =>
+        users.find((u) => u.id === v),
+      );
+      expect(codec.toKey(users[1])).to.equal(2);
+      expect(codec.fromKey(2)).to.equal(users[1]);
+      expect(() => codec.fromKey(3)).to.throw(InvalidSnapshotError);
+    });
+  });
+
+  describe("migrateSnapshot", () => {
+    it("should return current snapshots unchanged", () => {
+      expect(migrateSnapshot(snapshot)).to.equal(snapshot);
+    });
+
+    it("should upgrade plain entry arrays", () => {
+      const migrated = migrateSnapshot([["a", id]]);
+      expect(migrated.version).to.equal(SNAPSHOT_VERSION);
+      expect(migrated.entries).to.eql([["a", id]]);
+      expect(migrated.history.uids.map(([v]) => v)).to.eql([id]);
+    });
+
+    it("should add namespaces and links to version 1 snapshots", () => {
+      const v1: any = { ...snapshot, version: 1 };
+      delete v1.namespaces;
+      delete v1.links;
+      const migrated = migrateSnapshot(v1);
+      expect(migrated.version).to.equal(SNAPSHOT_VERSION);
+      expect(migrated.namespaces).to.eql({});
+      expect(migrated.links).to.eql([]);
+      expect(migrated.expires).to.eql([]);
+    });
+
+    it("should apply custom migrations", () => {
+      const legacy = { version: 0, pairs: [["a", id]] };
+      const migrations: Migrations = {
+        0: (s: any) => ({ ...snapshot, entries: s.pairs, history: undefined }),
+      };
+      expect(() => migrateSnapshot(legacy, migrations)).to.throw();
+      migrations[0] = (s: any) => ({ ...snapshot, entries: s.pairs });
+      expect(migrateSnapshot(legacy, migrations).entries).to.eql(legacy.pairs);
+    });
+
+    it("should reject unknown, newer, and malformed snapshots", () => {
+      const bad = [
+        {},
+        null,
+        { ...snapshot, version: SNAPSHOT_VERSION + 1 },
+        { ...snapshot, format: "nope" },
+        { ...snapshot, entries: [["a"]] },
+        { ...snapshot, expires: [{ uid: id, at: 1, ttl: 0 }] },
+        { ...snapshot, history: undefined },
+        { ...snapshot, namespaces: [] },
+        { ...snapshot, namespaces: { a: [["a"]] } },
+        { ...snapshot, links: [{ key: "a", uid: id }] },
+      ];
+      bad.forEach((s) => {
+        expect(() => migrateSnapshot(s)).to.throw(InvalidSnapshotError);
+      });
+    });
+
+    it("should reject migrations that do not advance the version", () => {
+      const stuck = { 0: (s: any) => s };
+      expect(() => migrateSnapshot([], stuck)).to.throw(InvalidSnapshotError);
+    });
+  });
+});
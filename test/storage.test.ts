@@ -0,0 +1,273 @@
+/**
+ * @file storage.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for storage.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  fileAdapter,
+  indexedDBAdapter,
+  localStorageAdapter,
+  memoryAdapter,
+  persistence,
+  preload,
+} from "../src/lib/storage";
+import type { StorageAdapter } from "../src/lib/storage";
+import type { LogEvent } from "../src/lib/logger";
+
+/**
+ * A minimal in-memory stand-in for `indexedDB`.
+ */
+const fakeIndexedDB = () => {
+  const stores = new Map<string, Map<unknown, unknown>>();
+  const request = (result: unknown) => {
+    const req: any = {};
+    queueMicrotask(() => {
+      req.result = result;
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const db = {
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => ({
+      objectStore: () => {
+        const store = stores.get(name) as Map<unknown, unknown>;
+        return {
+          get: (key: unknown) => request(store.get(key)),
+          put: (value: unknown, key: unknown) => {
+            store.set(key, value);
+            return request(key);
+          },
+        };
+      },
+    }),
+  };
+  return {
+    open: () => {
+      const req: any = {};
+      queueMicrotask(() => {
+        req.result = db;
+        if (!stores.size) req.onupgradeneeded?.();
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  } as unknown as IDBFactory;
+};
+
+/**
+ * Seal a body the way `persistence` writes it.
+ */
+const sealed = async (body: string) => {
+  const adapter = memoryAdapter();
+  const store = persistence({ adapter, autosave: "off" }, () => {});
+  store.start(
+    () => true,
+    () => body,
+  );
+  store.changed();
+  await store.flush();
+  return adapter.read("current") as string;
+};
+
+const roundTrip = async (adapter: StorageAdapter) => {
+  expect(await adapter.read("current")).to.be.undefined;
+  await adapter.write("current", "a");
+  await adapter.write("backup", "b");
+  expect(await adapter.read("current")).to.equal("a");
+  expect(await adapter.read("backup")).to.equal("b");
+};
+
+describe("storage.ts", () => {
+  describe("memoryAdapter", () => {
+    it("should read and write slots", () => roundTrip(memoryAdapter()));
+  });
+
+  describe("localStorageAdapter", () => {
+    it("should read and write slots under the key", async () => {
+      const items = new Map<string, string>();
+      const storage = {
+        getItem: (k: string) => items.get(k) ?? null,
+        setItem: (k: string, v: string) => items.set(k, v) && undefined,
+      };
+      await roundTrip(localStorageAdapter("ids", storage));
+      expect([...items.keys()]).to.eql(["ids", "ids:backup"]);
+    });
+  });
+
+  describe("fileAdapter", () => {
+    it("should read and write slots as files", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "uidmanager-"));
+      try {
+        const file = path.join(dir, "ids.json");
+        await roundTrip(fileAdapter(file));
+        expect(fs.readdirSync(dir).sort()).to.eql(["ids.json", "ids.json.bak"]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("indexedDBAdapter", () => {
+    it("should read and write slots asynchronously", async () => {
+      const adapter = indexedDBAdapter("ids", fakeIndexedDB());
+      expect(adapter.read("current")).to.be.instanceOf(Promise);
+      await roundTrip(adapter);
+    });
+  });
+
+  describe("preload", () => {
+    it("should answer reads synchronously and forward writes", async () => {
+      const adapter = indexedDBAdapter("ids", fakeIndexedDB());
+      await adapter.write("current", "a");
+      const loaded = await preload(adapter);
+      expect(loaded.read("current")).to.equal("a");
+      await loaded.write("backup", "b");
+      expect(await adapter.read("backup")).to.equal("b");
+    });
+  });
+
+  describe("persistence", () => {
+    const setup = (
+      adapter: StorageAdapter,
+      autosave: any = "write-through",
+    ) => {
+      const events: LogEvent[] = [];
+      const store = persistence({ adapter, autosave }, (e) => events.push(e));
+      return { store, events };
+    };
+
+    it("should seal writes and keep the previous write as a backup", async () => {
+      const adapter = memoryAdapter();
+      const { store } = setup(adapter);
+      let body = "1";
+      store.start(
+        () => true,
+        () => body,
+      );
+      store.changed();
+      body = "2";
+      store.changed();
+      await store.flush();
+      expect(JSON.parse(adapter.read("current") as string).body).to.equal("2");
+      expect(JSON.parse(adapter.read("backup") as string).body).to.equal("1");
+    });
+
+    it("should fall back to the backup when the current slot is corrupt", async () => {
+      const current = (await sealed("newer")).replace("newer", "n3wer");
+      const backup = await sealed("good");
+      const { store, events } = setup(memoryAdapter({ current, backup }));
+      const hydrated: string[] = [];
+      store.start(
+        (b) => hydrated.push(b) > 0,
+        () => "",
+      );
+      expect(hydrated).to.eql(["good"]);
+      expect(events.map((e) => e.level)).to.eql(["warn"]);
+    });
+
+    it("should fall back when the current snapshot is rejected", async () => {
+      const current = await sealed("bad");
+      const backup = await sealed("ok");
+      const { store, events } = setup(memoryAdapter({ current, backup }));
+      const hydrated: string[] = [];
+      store.start(
+        (b) => b === "ok" && hydrated.push(b) > 0,
+        () => "",
+      );
+      expect(hydrated).to.eql(["ok"]);
+      expect(events.map((e) => e.level)).to.eql(["warn"]);
+    });
+
+    it("should start empty and log an error when both slots are corrupt", () => {
+      const adapter = memoryAdapter({ current: "{", backup: "nope" });
+      const { store, events } = setup(adapter);
+      const hydrated: string[] = [];
+      store.start(
+        (b) => hydrated.push(b) > 0,
+        () => "",
+      );
+      expect(hydrated).to.be.empty;
+      expect(events.map((e) => e.level)).to.eql(["error"]);
+    });
+
+    it("should debounce writes until changes stop", async () => {
+      const adapter = memoryAdapter();
+      const writes: string[] = [];
+      const spy = {
+        ...adapter,
+        write: (slot: any, d: string) => {
+          if (slot === "current") writes.push(d);
+          return adapter.write(slot, d);
+        },
+      };
+      const store = persistence({ adapter: spy, delay: 5 }, () => {});
+      store.start(
+        () => true,
+        () => "x",
+      );
+      store.changed();
+      store.changed();
+      store.changed();
+      expect(writes).to.be.empty;
+      await new Promise((resolve) => {
+        setTimeout(resolve, 20);
+      });
+      await store.flush();
+      expect(writes).to.have.lengthOf(1);
+    });
+
+    it("should only write on flush when autosave is off", async () => {
+      const adapter = memoryAdapter();
+      const { store } = setup(adapter, "off");
+      store.start(
+        () => true,
+        () => "x",
+      );
+      store.changed();
+      await Promise.resolve();
+      expect(adapter.read("current")).to.be.undefined;
+      await store.flush();
+      expect(adapter.read("current")).to.be.a("string");
+    });
+
+    it("should log failed writes", async () => {
+      const adapter = {
+        name: "broken",
+        read: () => undefined,
+        write: () => {
+          throw new Error("full");
+        },
+      };
+      const { store, events } = setup(adapter);
+      store.start(
+        () => true,
+        () => "x",
+      );
+      store.changed();
+      await store.flush();
+      expect(events.map((e) => e.level)).to.eql(["error"]);
+    });
+
+    it("should refuse asynchronous reads and unknown modes", () => {
+      const adapter = indexedDBAdapter("ids", fakeIndexedDB());
+      expect(() =>
+        setup(adapter).store.start(
+          () => true,
+          () => "",
+        ),
+      ).to.throw(/UIDManagerAsync/);
+      expect(() => setup(memoryAdapter(), "nope")).to.throw();
+    });
+  });
+});
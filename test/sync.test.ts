@@ -0,0 +1,194 @@
+/**
+ * @file sync.test.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2023
+ * @license MIT
+ * @fileoverview
+ * Tests for sync.ts
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { memoryChannel, synchronize } from "../src/lib/sync";
+import { UIDManager } from "../src/lib/UIDManager";
+import type { LogEvent } from "../src/lib/logger";
+
+const ids = [
+  "ba7faa56-24a2-4098-9850-2cdb3d8e5e85",
+  "295b66a6-830f-478c-aa02-932556f6aec4",
+  "b53f621e-34d2-4edf-9ced-8f674efef33b",
+];
+
+/**
+ * Wait for every queued message to be delivered.
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("sync.ts", () => {
+  describe("synchronize", () => {
+    it("should replicate changes to every connected manager", async () => {
+      const channel = memoryChannel();
+      const [a, b, c] = [UIDManager(), UIDManager(), UIDManager()];
+      [a, b, c].forEach((m) =>
+        synchronize(m, { transport: channel.connect() }),
+      );
+      const id = a.generateUIDFor("x") as string;
+      b.set(["y", ids[0]]);
+      await settle();
+      [a, b, c].forEach((m) => {
+        expect(m.getUIDFor("x")).to.equal(id);
+        expect(m.getUIDFor("y")).to.equal(ids[0]);
+      });
+      c.deleteUIDFor("x");
+      b.deleteUID(ids[0]);
+      await settle();
+      [a, b, c].forEach((m) => expect(m.entries()).to.be.empty);
+    });
+
+    it("should send the full state to managers that join late", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      synchronize(a, { transport: channel.connect() });
+      a.set(["x", ids[0]]);
+      a.set(["y", ids[1]]);
+      a.deleteUIDFor("y");
+      await settle();
+      const b = UIDManager();
+      b.set(["z", ids[2]]);
+      synchronize(b, { transport: channel.connect() });
+      await settle();
+      expect(a.entries()).to.eql([
+        ["x", ids[0]],
+        ["z", ids[2]],
+      ]);
+      expect(b.entries()).to.eql([
+        ["z", ids[2]],
+        ["x", ids[0]],
+      ]);
+    });
+
+    it("should resolve concurrent changes to a key the same way everywhere", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      const b = UIDManager();
+      synchronize(a, { transport: channel.connect(), id: "a" });
+      synchronize(b, { transport: channel.connect(), id: "b" });
+      await settle();
+      a.set(["x", ids[0]]);
+      b.set(["x", ids[1]]);
+      await settle();
+      expect(a.getUIDFor("x")).to.equal(ids[1]);
+      expect(b.getUIDFor("x")).to.equal(ids[1]);
+      a.set(["x", ids[2]]);
+      await settle();
+      expect(b.getUIDFor("x")).to.equal(ids[2]);
+    });
+
+    it("should keep deletes that win over earlier changes", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      const b = UIDManager();
+      synchronize(a, { transport: channel.connect(), id: "a" });
+      synchronize(b, { transport: channel.connect(), id: "b" });
+      a.set(["x", ids[0]]);
+      await settle();
+      b.deleteAll();
+      a.set(["y", ids[1]]);
+      await settle();
+      expect(a.entries()).to.eql([["y", ids[1]]]);
+      expect(b.entries()).to.eql([["y", ids[1]]]);
+    });
+
+    it("should converge when a uid moves to another key", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      const b = UIDManager();
+      synchronize(a, { transport: channel.connect() });
+      synchronize(b, { transport: channel.connect() });
+      const id = a.generateUIDFor("x") as string;
+      await settle();
+      b.deleteUIDFor("x");
+      b.set(["y", id]);
+      await settle();
+      expect(a.entries()).to.eql([["y", id]]);
+      b.applyPatch({
+        added: [],
+        removed: [],
+        changed: [],
+        rekeyed: [{ uid: id, from: "y", to: "z" }],
+      });
+      await settle();
+      expect(a.entries()).to.eql([["z", id]]);
+      expect(b.entries()).to.eql([["z", id]]);
+    });
+
+    it("should release uids replaced by remote changes with the live policy", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager({ retention: { type: "live" } });
+      const b = UIDManager();
+      synchronize(a, { transport: channel.connect() });
+      synchronize(b, { transport: channel.connect() });
+      const id = a.generateUIDFor("x") as string;
+      await settle();
+      b.set(["x", ids[0]]);
+      await settle();
+      expect(a.getUIDFor("x")).to.equal(ids[0]);
+      expect(a.set(["y", id])).to.be.true;
+    });
+
+    it("should sync namespace views", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      const b = UIDManager();
+      synchronize(a.namespace("users"), { transport: channel.connect() });
+      synchronize(b.namespace("users"), { transport: channel.connect() });
+      a.namespace("users").set(["x", ids[0]]);
+      a.set(["y", ids[1]]);
+      await settle();
+      expect(b.namespace("users").getUIDFor("x")).to.equal(ids[0]);
+      expect(b.getUIDFor("y")).to.be.undefined;
+    });
+
+    it("should stop replicating once closed", async () => {
+      const channel = memoryChannel();
+      const a = UIDManager();
+      const b = UIDManager();
+      const sync = synchronize(a, { transport: channel.connect() });
+      synchronize(b, { transport: channel.connect() });
+      sync.close();
+      sync.close();
+      a.set(["x", ids[0]]);
+      b.set(["y", ids[1]]);
+      await settle();
+      expect(a.entries()).to.eql([["x", ids[0]]]);
+      expect(b.entries()).to.eql([["y", ids[1]]]);
+    });
+
+    it("should ignore unrelated messages and report changes it cannot apply", async () => {
+      const channel = memoryChannel();
+      const events: LogEvent[] = [];
+      const a = UIDManager({ logger: "silent" });
+      const b = UIDManager({ logger: "silent" });
+      const other = channel.connect();
+      synchronize(a, { transport: channel.connect(), logger: "silent" });
+      synchronize(b, {
+        transport: channel.connect(),
+        logger: (event) => events.push(event),
+      });
+      other.postMessage({ hello: "world" });
+      other.postMessage({ protocol: "uidmanager-sync/1", kind: "change" });
+      b.set(["y", ids[0]]);
+      a.set(["x", ids[0]]);
+      await settle();
+      expect(a.getUIDFor("x")).to.equal(ids[0]);
+      expect(b.getUIDFor("x")).to.be.undefined;
+      expect(events.map((e) => e.level)).to.include("warn");
+    });
+
+    it("should reject empty ids", () => {
+      const transport = memoryChannel().connect();
+      expect(() => synchronize(UIDManager(), { transport, id: "" })).to.throw();
+    });
+  });
+});
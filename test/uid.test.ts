@@ -10,7 +10,9 @@
 
 import { describe, it } from "mocha";
 import { expect } from "chai";
-import { uid } from "../src/lib/uid";
+import { uid, validateDetailed } from "../src/lib/uid";
+import { seededRandom } from "../src/lib/random";
+import { decode } from "../src/lib/formats";
 
 /**
  * Use long form logic to check that a string is a RFC 4122 Version 4 unique identifier.
@@ -128,6 +130,92 @@ describe("uid.ts", () => {
     });
   });
 
+  describe("validateDetailed", () => {
+    it("should report the version and variant of valid uids", () => {
+      const [report] = validateDetailed(validIds[0]);
+      expect(report).to.eql({
+        input: validIds[0],
+        valid: true,
+        uid: validIds[0],
+        version: 4,
+        variant: "rfc9562",
+      });
+    });
+
+    it("should accept braces, urn prefixes, missing hyphens, and any case", () => {
+      const id = validIds[0];
+      const forms = [
+        `{${id}}`,
+        `urn:uuid:${id}`,
+        `URN:UUID:${id.toUpperCase()}`,
+        id.replace(/-/g, ""),
+      ];
+      const reports = forms.map((form) => validateDetailed(form)[0]);
+      expect(reports.map((r) => r.valid)).to.eql([true, true, true, true]);
+      expect(reports.map((r) => r.uid)).to.eql([id, id, id, id]);
+    });
+
+    it("should give a reason for every rejected input", () => {
+      const id = validIds[0];
+      const inputs = [
+        null,
+        "nope",
+        id.replace("a", "x"),
+        id.replace("-", "_"),
+        id.replace("-4098", "-1098"),
+        id.replace("-9850", "-c850"),
+        id,
+        id.toUpperCase(),
+      ];
+      const reports = validateDetailed(inputs);
+      expect(reports.map((r) => r.reason)).to.eql([
+        "type",
+        "length",
+        "characters",
+        "characters",
+        "version",
+        "variant",
+        undefined,
+        "duplicate",
+      ]);
+      expect(reports[4].version).to.equal(1);
+      expect(reports[5].variant).to.equal("microsoft");
+      expect(reports.every((r) => r.valid === !r.message)).to.be.true;
+    });
+
+    it("should report characters, not length, for every accepted form", () => {
+      const bad = validIds[0].replace("a", "x");
+      const hex = bad.replace(/-/g, "");
+      const forms = [
+        hex,
+        `{${hex}}`,
+        `urn:uuid:${hex}`,
+        `{${bad}}`,
+        `urn:uuid:${bad}`,
+      ];
+      const reports = validateDetailed(forms);
+      expect(reports.map((r) => r.reason)).to.eql(
+        forms.map(() => "characters"),
+      );
+      expect(validateDetailed(`{${hex.slice(1)}}`)[0].reason).to.equal(
+        "length",
+      );
+    });
+
+    it("should report on identifiers in the configured format", () => {
+      const generator = uid([], { format: "ulid" });
+      const id = generator.generate();
+      const reports = generator.validateDetailed([id.toLowerCase(), id, 1]);
+      expect(reports.map((r) => r.reason)).to.eql([
+        undefined,
+        "duplicate",
+        "type",
+      ]);
+      expect(reports[0].uid).to.equal(id);
+      expect(generator.validateDetailed("nope")[0].reason).to.equal("format");
+    });
+  });
+
   describe("uid.generate", () => {
     it("should GENERATE valid RFC4122 version 4 compliant unique identifiers", () => {
       const generator = uid();
@@ -148,6 +236,203 @@ describe("uid.ts", () => {
     });
   });
 
+  describe("uid version 7", () => {
+    const re =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    it("should GENERATE valid RFC 9562 version 7 unique identifiers", () => {
+      const generator = uid([], { version: 7 });
+      expect(generator.version).to.equal(7);
+      Array(100)
+        .fill(0)
+        .map(() => generator.generate())
+        .forEach((id) => {
+          expect(re.test(id)).to.be.true;
+          expect(generator.validate(id)).to.eql([id]);
+        });
+    });
+
+    it("should encode the clock time in the first 48 bits", () => {
+      const time = 0x0189abcdef01;
+      const generator = uid([], { version: 7, clock: () => time });
+      const id = generator.generate();
+      expect(id.replace(/-/g, "").slice(0, 12)).to.equal(
+        time.toString(16).padStart(12, "0"),
+      );
+    });
+
+    it("should be strictly increasing when many are generated in the same millisecond", () => {
+      const generator = uid([], { version: 7, clock: () => 1_700_000_000_000 });
+      const ids = Array(5_000)
+        .fill(0)
+        .map(() => generator.generate());
+      const sorted = [...ids].sort();
+      expect(ids).to.eql(sorted);
+      expect([...new Set(ids)].length).to.equal(ids.length);
+    });
+
+    it("should be strictly increasing when the clock moves backwards", () => {
+      const times = [5_000, 5_001, 4_000, 3_000, 5_001, 6_000, 1_000];
+      let i = 0;
+      const generator = uid([], { version: 7, clock: () => times[i++] });
+      const ids = times.map(() => generator.generate());
+      const sorted = [...ids].sort();
+      expect(ids).to.eql(sorted);
+      expect([...new Set(ids)].length).to.equal(ids.length);
+    });
+
+    it("should throw for unsupported versions", () => {
+      expect(() => uid([], { version: 2 as any })).to.throw();
+    });
+  });
+
+  describe("uid format", () => {
+    it("should generate and validate compact encodings of the UUID version", () => {
+      const generator = uid([], { version: 7, format: "base58" });
+      const id = generator.generate();
+      expect(id).to.have.length(22);
+      expect(generator.validate([id, validIds[0]])).to.eql([id]);
+      expect(decode(id, "base58")[14]).to.equal("7");
+    });
+
+    it("should remember ULIDs case-insensitively", () => {
+      const generator = uid([], { format: "ulid" });
+      const id = generator.generate();
+      expect(generator.format.name).to.equal("ulid");
+      expect(generator.setExisting([id.toLowerCase()])).to.be.true;
+      expect(generator.getExisting()).to.eql([id]);
+      expect(generator.has(id)).to.be.true;
+    });
+
+    it("should generate NanoIDs", () => {
+      const format = { type: "nanoid" as const, size: 10 };
+      const generator = uid([], { format, random: seededRandom(1) });
+      const ids = [...new Array(50)].map(() => generator.generate());
+      expect(new Set(ids).size).to.equal(50);
+      expect(generator.validate(ids)).to.have.length(50);
+      expect(generator.validate(validIds)).to.be.empty;
+    });
+  });
+
+  describe("uid.source", () => {
+    it("should report a secure random source in Node", () => {
+      const generator = uid([], { strict: true });
+      expect(generator.source).to.not.equal("math-random");
+      expect(longFormValidator(generator.generate())).to.be.true;
+    });
+  });
+
+  describe("uid random option", () => {
+    it("should generate the same valid uids for the same seed", () => {
+      const a = uid([], { random: seededRandom(1234) });
+      const b = uid([], { random: seededRandom(1234) });
+      const idsA = Array(50)
+        .fill(0)
+        .map(() => a.generate());
+      const idsB = Array(50)
+        .fill(0)
+        .map(() => b.generate());
+      expect(idsA).to.eql(idsB);
+      expect(a.validate(idsA)).to.eql(idsA);
+      idsA.forEach((id) => expect(longFormValidator(id)).to.be.true);
+    });
+
+    it("should keep the collision check working with the injected source", () => {
+      const repeat = [1, 2, 3, 4, 1, 2, 3, 4, 5, 6, 7, 8];
+      let i = 0;
+      const generator = uid([], {
+        random: (values) => values.map(() => repeat[i++ % repeat.length]),
+      });
+      const first = generator.generate();
+      const second = generator.generate();
+      expect(second).to.not.equal(first);
+      expect(generator.source).to.equal("custom");
+    });
+
+    it("should expose the seed and state so a run can be replayed", () => {
+      const generator = uid([], { random: seededRandom(99) });
+      generator.generate();
+      const { seed, state } = generator.getRandomState()!;
+      expect(seed).to.equal(99);
+      const next = generator.generate();
+
+      const source = seededRandom(seed);
+      source.setState(state as [number, number, number, number]);
+      expect(uid([], { random: source }).generate()).to.equal(next);
+      expect(uid().getRandomState()).to.be.undefined;
+    });
+
+    it("should throw in strict mode if the source is not secure", () => {
+      expect(() =>
+        uid([], { strict: true, random: seededRandom(1) }),
+      ).to.throw();
+      const insecure = { ...seededRandom(1), name: "math-random" as const };
+      expect(() => uid([], { strict: true, random: insecure })).to.throw();
+    });
+  });
+
+  describe("uid retention", () => {
+    const make = (n: number, generator: ReturnType<typeof uid>) =>
+      Array(n)
+        .fill(0)
+        .map(() => generator.generate());
+
+    it("should remember every uid by default", () => {
+      const generator = uid();
+      expect(generator.retention).to.eql({ type: "all" });
+      const ids = make(100, generator);
+      ids.forEach((id) => generator.release(id));
+      expect(generator.getExisting()).to.eql(ids);
+    });
+
+    it("should drop released uids with the live policy", () => {
+      const generator = uid([], { retention: { type: "live" } });
+      const ids = make(3, generator);
+      generator.release(ids[1]);
+      expect(generator.has(ids[1])).to.be.false;
+      expect(generator.getExisting()).to.eql([ids[0], ids[2]]);
+    });
+
+    it("should keep only the last N uids with the lru policy", () => {
+      const generator = uid([], { retention: { type: "lru", max: 5 } });
+      const ids = make(20, generator);
+      expect(generator.getExisting()).to.eql(ids.slice(-5));
+      expect(generator.has(ids[0])).to.be.false;
+    });
+
+    it("should keep only uids inside the time window with the window policy", () => {
+      let now = 1_000;
+      const generator = uid([], {
+        clock: () => now,
+        retention: { type: "window", ms: 100 },
+      });
+      const old = make(3, generator);
+      now += 60;
+      const recent = make(2, generator);
+      now += 60;
+      expect(generator.getExisting()).to.eql(recent);
+      expect(old.some((id) => generator.has(id))).to.be.false;
+    });
+
+    it("should never reissue retired uids and allow forgetting them", () => {
+      const generator = uid([], { retention: { type: "lru", max: 0 } });
+      const [id] = make(1, generator);
+      expect(generator.has(id)).to.be.false;
+      generator.retire(id);
+      make(10, generator);
+      expect(generator.has(id)).to.be.true;
+      expect(generator.getExisting()).to.be.empty;
+      expect(generator.forget(id)).to.be.true;
+      expect(generator.has(id)).to.be.false;
+      expect(generator.forget(id)).to.be.false;
+    });
+
+    it("should throw for invalid policies", () => {
+      expect(() => uid([], { retention: { type: "lru", max: -1 } })).to.throw();
+      expect(() => uid([], { retention: { type: "nope" } as any })).to.throw();
+    });
+  });
+
   describe("uid.getExisting", () => {
     it("should return the current list of generated uids", () => {
       const generator = uid();
@@ -186,4 +471,66 @@ describe("uid.ts", () => {
       expect(retrieved).to.eql(validIds).but.not.eql(ids);
     });
   });
+
+  describe("uid.getHistory", () => {
+    it("should return retained uids with times and retired uids", () => {
+      let now = 100;
+      const generator = uid([], { clock: () => now });
+      const a = generator.generate();
+      now = 200;
+      const b = generator.generate();
+      generator.retire(validIds[0]);
+      expect(generator.getHistory()).to.eql({
+        uids: [
+          [a, 100],
+          [b, 200],
+        ],
+        retired: [validIds[0]],
+      });
+    });
+  });
+
+  describe("uid.setHistory", () => {
+    it("should replace the retained and retired uids", () => {
+      const generator = uid();
+      generator.generate();
+      const history = {
+        uids: [[validIds[0], 1] as [string, number]],
+        retired: [validIds[1]],
+      };
+      expect(generator.setHistory(history)).to.be.true;
+      expect(generator.getHistory()).to.eql(history);
+      expect(generator.has(validIds[1])).to.be.true;
+    });
+
+    it("should record how to undo every change to the history", () => {
+      const generator = uid([], { retention: { type: "lru", max: 2 } });
+      const undo: (() => (() => void) | void)[] = [];
+      generator.journal((fn) => undo.push(fn));
+      generator.generate();
+      generator.generate();
+      const before = generator.getHistory();
+      undo.length = 0;
+      generator.generate();
+      generator.retire(validIds[0]);
+      generator.forget(before.uids[1][0]);
+      generator.setHistory({ uids: [], retired: [validIds[1]] });
+      const then = new Set(undo.reverse().map((fn) => fn()));
+      then.forEach((fn) => fn?.());
+      expect(generator.getHistory()).to.eql(before);
+    });
+
+    it("should return false and keep the history on failure", () => {
+      const generator = uid();
+      const id = generator.generate();
+      const bad = { uids: [["nope", 1] as [string, number]], retired: [] };
+      expect(generator.setHistory(bad)).to.be.false;
+      const badTime = {
+        uids: [[validIds[0], NaN] as [string, number]],
+        retired: [],
+      };
+      expect(generator.setHistory(badTime)).to.be.false;
+      expect(generator.getExisting()).to.eql([id]);
+    });
+  });
 });